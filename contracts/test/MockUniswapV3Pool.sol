@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.7;
+
+/// Stands in for a Uniswap V3 pool on testnets and local forks, answering
+/// `observe` with observations mirrored from a mainnet pool by the poster
+contract MockUniswapV3Pool {
+    struct Observation {
+        int56 tickCumulative;
+        uint160 secondsPerLiquidityCumulativeX128;
+        bool initialized;
+    }
+
+    /// Observations by how many seconds before the latest block they were taken
+    mapping(uint32 => Observation) public observations;
+
+    function setObservations(
+        uint32[] calldata secondsAgos,
+        int56[] calldata tickCumulatives,
+        uint160[] calldata secondsPerLiquidityCumulativeX128s
+    ) external {
+        require(
+            secondsAgos.length == tickCumulatives.length &&
+                secondsAgos.length == secondsPerLiquidityCumulativeX128s.length,
+            "Length mismatch"
+        );
+        for (uint256 i = 0; i < secondsAgos.length; i++) {
+            observations[secondsAgos[i]] = Observation(
+                tickCumulatives[i],
+                secondsPerLiquidityCumulativeX128s[i],
+                true
+            );
+        }
+    }
+
+    /// Like `IUniswapV3Pool.observe`, but only for the `secondsAgos` that were
+    /// set, reverting with `OLD` as a pool does for observations it doesn't have
+    function observe(uint32[] calldata secondsAgos)
+        external
+        view
+        returns (
+            int56[] memory tickCumulatives,
+            uint160[] memory secondsPerLiquidityCumulativeX128s
+        )
+    {
+        tickCumulatives = new int56[](secondsAgos.length);
+        secondsPerLiquidityCumulativeX128s = new uint160[](secondsAgos.length);
+        for (uint256 i = 0; i < secondsAgos.length; i++) {
+            Observation memory observation = observations[secondsAgos[i]];
+            require(observation.initialized, "OLD");
+            tickCumulatives[i] = observation.tickCumulative;
+            secondsPerLiquidityCumulativeX128s[i] = observation
+                .secondsPerLiquidityCumulativeX128;
+        }
+    }
+}
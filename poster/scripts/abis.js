@@ -0,0 +1,79 @@
+// Copies the ABIs of the contracts built in this repo from Hardhat's `artifacts/`
+// into `src/abi`, then generates `src/abi/index.ts` from every ABI there, which
+// `src/contracts.ts` derives the names and arguments of its calls from.
+//
+// Run `yarn compile` in the root project first. Without `artifacts/`, as when the
+// poster is built on its own, the ABIs already in `src/abi` are used. With
+// `--check`, fails when a file is out of date rather than writing it.
+const fs = require('fs');
+const path = require('path');
+
+const ARTIFACTS = path.join(__dirname, '..', '..', 'artifacts');
+const ABI_DIR = path.join(__dirname, '..', 'src', 'abi');
+const INDEX = path.join(ABI_DIR, 'index.ts');
+
+// Contracts compiled from `contracts/`, by the name the poster binds them as.
+// The other ABIs in `src/abi` are of contracts deployed from outside this repo.
+const COMPILED = {
+  MockUniswapV3Pool: 'contracts/test/MockUniswapV3Pool.sol/MockUniswapV3Pool.json',
+  UniswapAnchoredView: 'contracts/Uniswap/UniswapAnchoredView.sol/UniswapAnchoredView.json',
+  UniswapV3Pool: 'contracts/Uniswap/UniswapLib.sol/IUniswapV3Pool.json'
+};
+
+// Contents of every file under `src/abi` that should be written, by path
+function generate(artifacts = ARTIFACTS) {
+  const files = {};
+
+  if (fs.existsSync(artifacts)) {
+    for (const [name, artifact] of Object.entries(COMPILED)) {
+      const { abi } = JSON.parse(fs.readFileSync(path.join(artifacts, artifact), 'utf8'));
+      files[path.join(ABI_DIR, `${name}.json`)] = JSON.stringify(abi, null, 2) + '\n';
+    }
+  }
+
+  const names = fs.readdirSync(ABI_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => path.basename(file, '.json'))
+    .sort();
+  const abis = names.map(name => {
+    const file = path.join(ABI_DIR, `${name}.json`);
+    const json = files[file] || fs.readFileSync(file, 'utf8');
+
+    return `export const ${name} = ${JSON.stringify(JSON.parse(json), null, 2)} as const;\n`;
+  });
+
+  files[INDEX] = [
+    '// Generated by `scripts/abis.js` from the ABIs in this directory, do not edit.\n',
+    ...abis,
+    `export const ABIS = {\n${names.map(name => `  ${name}`).join(',\n')}\n};\n`
+  ].join('\n');
+
+  return files;
+}
+
+function main(check) {
+  const files = generate();
+  const stale = Object.keys(files).filter(file => !fs.existsSync(file) || fs.readFileSync(file, 'utf8') !== files[file]);
+
+  if (!fs.existsSync(ARTIFACTS)) {
+    console.log(`No artifacts at ${ARTIFACTS}, using the ABIs in ${ABI_DIR}`);
+  }
+
+  if (check) {
+    if (stale.length > 0) {
+      console.error(`Out of date, run \`yarn abis\`: ${stale.join(', ')}`);
+      process.exit(1);
+    }
+  } else {
+    for (const file of stale) {
+      fs.writeFileSync(file, files[file]);
+      console.log(`Wrote ${file}`);
+    }
+  }
+}
+
+module.exports = { generate };
+
+if (require.main === module) {
+  main(process.argv.includes('--check'));
+}
@@ -0,0 +1,1313 @@
+// Generated by `scripts/abis.js` from the ABIs in this directory, do not edit.
+
+export const MockUniswapTokenPair = [
+  {
+    "type": "function",
+    "name": "update",
+    "stateMutability": "nonpayable",
+    "inputs": [
+      {
+        "name": "_reserve0",
+        "type": "uint112"
+      },
+      {
+        "name": "_reserve1",
+        "type": "uint112"
+      },
+      {
+        "name": "_blockTimestampLast",
+        "type": "uint32"
+      },
+      {
+        "name": "_price0CumulativeLast",
+        "type": "uint256"
+      },
+      {
+        "name": "_price1CumulativeLast",
+        "type": "uint256"
+      }
+    ],
+    "outputs": []
+  }
+] as const;
+
+export const MockUniswapV3Pool = [
+  {
+    "inputs": [
+      {
+        "internalType": "uint32",
+        "name": "",
+        "type": "uint32"
+      }
+    ],
+    "name": "observations",
+    "outputs": [
+      {
+        "internalType": "int56",
+        "name": "tickCumulative",
+        "type": "int56"
+      },
+      {
+        "internalType": "uint160",
+        "name": "secondsPerLiquidityCumulativeX128",
+        "type": "uint160"
+      },
+      {
+        "internalType": "bool",
+        "name": "initialized",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint32[]",
+        "name": "secondsAgos",
+        "type": "uint32[]"
+      }
+    ],
+    "name": "observe",
+    "outputs": [
+      {
+        "internalType": "int56[]",
+        "name": "tickCumulatives",
+        "type": "int56[]"
+      },
+      {
+        "internalType": "uint160[]",
+        "name": "secondsPerLiquidityCumulativeX128s",
+        "type": "uint160[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint32[]",
+        "name": "secondsAgos",
+        "type": "uint32[]"
+      },
+      {
+        "internalType": "int56[]",
+        "name": "tickCumulatives",
+        "type": "int56[]"
+      },
+      {
+        "internalType": "uint160[]",
+        "name": "secondsPerLiquidityCumulativeX128s",
+        "type": "uint160[]"
+      }
+    ],
+    "name": "setObservations",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+export const Multicall3 = [
+  {
+    "type": "function",
+    "name": "aggregate3",
+    "stateMutability": "payable",
+    "inputs": [
+      {
+        "name": "calls",
+        "type": "tuple[]",
+        "components": [
+          {
+            "name": "target",
+            "type": "address"
+          },
+          {
+            "name": "allowFailure",
+            "type": "bool"
+          },
+          {
+            "name": "callData",
+            "type": "bytes"
+          }
+        ]
+      }
+    ],
+    "outputs": [
+      {
+        "name": "returnData",
+        "type": "tuple[]",
+        "components": [
+          {
+            "name": "success",
+            "type": "bool"
+          },
+          {
+            "name": "returnData",
+            "type": "bytes"
+          }
+        ]
+      }
+    ]
+  }
+] as const;
+
+export const OpenOraclePriceData = [
+  {
+    "type": "function",
+    "name": "source",
+    "stateMutability": "pure",
+    "inputs": [
+      {
+        "name": "message",
+        "type": "bytes"
+      },
+      {
+        "name": "signature",
+        "type": "bytes"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "address"
+      }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "get",
+    "stateMutability": "view",
+    "inputs": [
+      {
+        "name": "source",
+        "type": "address"
+      },
+      {
+        "name": "key",
+        "type": "string"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "timestamp",
+        "type": "uint64"
+      },
+      {
+        "name": "value",
+        "type": "uint64"
+      }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "getPrice",
+    "stateMutability": "view",
+    "inputs": [
+      {
+        "name": "source",
+        "type": "address"
+      },
+      {
+        "name": "key",
+        "type": "string"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint64"
+      }
+    ]
+  }
+] as const;
+
+export const OpenOracleView = [
+  {
+    "type": "function",
+    "name": "priceData",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "address"
+      }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "postPrices",
+    "stateMutability": "nonpayable",
+    "inputs": [
+      {
+        "name": "messages",
+        "type": "bytes[]"
+      },
+      {
+        "name": "signatures",
+        "type": "bytes[]"
+      },
+      {
+        "name": "symbols",
+        "type": "string[]"
+      }
+    ],
+    "outputs": []
+  },
+  {
+    "type": "function",
+    "name": "postPrices",
+    "stateMutability": "nonpayable",
+    "inputs": [
+      {
+        "name": "messages",
+        "type": "bytes[]"
+      },
+      {
+        "name": "signatures",
+        "type": "bytes[]"
+      }
+    ],
+    "outputs": []
+  }
+] as const;
+
+export const UniswapAnchoredView = [
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "anchorToleranceMantissa_",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint32",
+        "name": "anchorPeriod_",
+        "type": "uint32"
+      },
+      {
+        "components": [
+          {
+            "internalType": "address",
+            "name": "cToken",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "underlying",
+            "type": "address"
+          },
+          {
+            "internalType": "bytes32",
+            "name": "symbolHash",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "uint256",
+            "name": "baseUnit",
+            "type": "uint256"
+          },
+          {
+            "internalType": "enum UniswapConfig.PriceSource",
+            "name": "priceSource",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "fixedPrice",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "uniswapMarket",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "reporter",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "reporterMultiplier",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "isUniswapReversed",
+            "type": "bool"
+          }
+        ],
+        "internalType": "struct UniswapConfig.TokenConfig[]",
+        "name": "configs",
+        "type": "tuple[]"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "bytes32",
+        "name": "symbolHash",
+        "type": "bytes32"
+      }
+    ],
+    "name": "FailoverActivated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "bytes32",
+        "name": "symbolHash",
+        "type": "bytes32"
+      }
+    ],
+    "name": "FailoverDeactivated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "from",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      }
+    ],
+    "name": "OwnershipTransferRequested",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "from",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      }
+    ],
+    "name": "OwnershipTransferred",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "bytes32",
+        "name": "symbolHash",
+        "type": "bytes32"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "reporterPrice",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "anchorPrice",
+        "type": "uint256"
+      }
+    ],
+    "name": "PriceGuarded",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "bytes32",
+        "name": "symbolHash",
+        "type": "bytes32"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "price",
+        "type": "uint256"
+      }
+    ],
+    "name": "PriceUpdated",
+    "type": "event"
+  },
+  {
+    "inputs": [],
+    "name": "ETH_BASE_UNIT",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "EXP_SCALE",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "MAX_INTEGER",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "MAX_TOKENS",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "acceptOwnership",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "symbolHash",
+        "type": "bytes32"
+      }
+    ],
+    "name": "activateFailover",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "anchorPeriod",
+    "outputs": [
+      {
+        "internalType": "uint32",
+        "name": "",
+        "type": "uint32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "symbolHash",
+        "type": "bytes32"
+      }
+    ],
+    "name": "deactivateFailover",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "i",
+        "type": "uint256"
+      }
+    ],
+    "name": "getTokenConfig",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "address",
+            "name": "cToken",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "underlying",
+            "type": "address"
+          },
+          {
+            "internalType": "bytes32",
+            "name": "symbolHash",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "uint256",
+            "name": "baseUnit",
+            "type": "uint256"
+          },
+          {
+            "internalType": "enum UniswapConfig.PriceSource",
+            "name": "priceSource",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "fixedPrice",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "uniswapMarket",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "reporter",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "reporterMultiplier",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "isUniswapReversed",
+            "type": "bool"
+          }
+        ],
+        "internalType": "struct UniswapConfig.TokenConfig",
+        "name": "",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "cToken",
+        "type": "address"
+      }
+    ],
+    "name": "getTokenConfigByCToken",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "address",
+            "name": "cToken",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "underlying",
+            "type": "address"
+          },
+          {
+            "internalType": "bytes32",
+            "name": "symbolHash",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "uint256",
+            "name": "baseUnit",
+            "type": "uint256"
+          },
+          {
+            "internalType": "enum UniswapConfig.PriceSource",
+            "name": "priceSource",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "fixedPrice",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "uniswapMarket",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "reporter",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "reporterMultiplier",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "isUniswapReversed",
+            "type": "bool"
+          }
+        ],
+        "internalType": "struct UniswapConfig.TokenConfig",
+        "name": "",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "reporter",
+        "type": "address"
+      }
+    ],
+    "name": "getTokenConfigByReporter",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "address",
+            "name": "cToken",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "underlying",
+            "type": "address"
+          },
+          {
+            "internalType": "bytes32",
+            "name": "symbolHash",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "uint256",
+            "name": "baseUnit",
+            "type": "uint256"
+          },
+          {
+            "internalType": "enum UniswapConfig.PriceSource",
+            "name": "priceSource",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "fixedPrice",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "uniswapMarket",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "reporter",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "reporterMultiplier",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "isUniswapReversed",
+            "type": "bool"
+          }
+        ],
+        "internalType": "struct UniswapConfig.TokenConfig",
+        "name": "",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "symbol",
+        "type": "string"
+      }
+    ],
+    "name": "getTokenConfigBySymbol",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "address",
+            "name": "cToken",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "underlying",
+            "type": "address"
+          },
+          {
+            "internalType": "bytes32",
+            "name": "symbolHash",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "uint256",
+            "name": "baseUnit",
+            "type": "uint256"
+          },
+          {
+            "internalType": "enum UniswapConfig.PriceSource",
+            "name": "priceSource",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "fixedPrice",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "uniswapMarket",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "reporter",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "reporterMultiplier",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "isUniswapReversed",
+            "type": "bool"
+          }
+        ],
+        "internalType": "struct UniswapConfig.TokenConfig",
+        "name": "",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "symbolHash",
+        "type": "bytes32"
+      }
+    ],
+    "name": "getTokenConfigBySymbolHash",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "address",
+            "name": "cToken",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "underlying",
+            "type": "address"
+          },
+          {
+            "internalType": "bytes32",
+            "name": "symbolHash",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "uint256",
+            "name": "baseUnit",
+            "type": "uint256"
+          },
+          {
+            "internalType": "enum UniswapConfig.PriceSource",
+            "name": "priceSource",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "fixedPrice",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "uniswapMarket",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "reporter",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "reporterMultiplier",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "isUniswapReversed",
+            "type": "bool"
+          }
+        ],
+        "internalType": "struct UniswapConfig.TokenConfig",
+        "name": "",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "underlying",
+        "type": "address"
+      }
+    ],
+    "name": "getTokenConfigByUnderlying",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "address",
+            "name": "cToken",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "underlying",
+            "type": "address"
+          },
+          {
+            "internalType": "bytes32",
+            "name": "symbolHash",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "uint256",
+            "name": "baseUnit",
+            "type": "uint256"
+          },
+          {
+            "internalType": "enum UniswapConfig.PriceSource",
+            "name": "priceSource",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "fixedPrice",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "uniswapMarket",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "reporter",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "reporterMultiplier",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "isUniswapReversed",
+            "type": "bool"
+          }
+        ],
+        "internalType": "struct UniswapConfig.TokenConfig",
+        "name": "",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "cToken",
+        "type": "address"
+      }
+    ],
+    "name": "getUnderlyingPrice",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "lowerBoundAnchorRatio",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "numTokens",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "owner",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "symbolHash",
+        "type": "bytes32"
+      }
+    ],
+    "name": "pokeFailedOverPrice",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "symbol",
+        "type": "string"
+      }
+    ],
+    "name": "price",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "",
+        "type": "bytes32"
+      }
+    ],
+    "name": "prices",
+    "outputs": [
+      {
+        "internalType": "uint248",
+        "name": "price",
+        "type": "uint248"
+      },
+      {
+        "internalType": "bool",
+        "name": "failoverActive",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      }
+    ],
+    "name": "transferOwnership",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "upperBoundAnchorRatio",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      },
+      {
+        "internalType": "int256",
+        "name": "",
+        "type": "int256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      },
+      {
+        "internalType": "int256",
+        "name": "currentAnswer",
+        "type": "int256"
+      }
+    ],
+    "name": "validate",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "valid",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+export const UniswapV2Pair = [
+  {
+    "type": "function",
+    "name": "getReserves",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "reserve0",
+        "type": "uint112"
+      },
+      {
+        "name": "reserve1",
+        "type": "uint112"
+      },
+      {
+        "name": "blockTimestampLast",
+        "type": "uint32"
+      }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "price0CumulativeLast",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256"
+      }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "price1CumulativeLast",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256"
+      }
+    ]
+  }
+] as const;
+
+export const UniswapV3Pool = [
+  {
+    "inputs": [
+      {
+        "internalType": "uint32[]",
+        "name": "secondsAgos",
+        "type": "uint32[]"
+      }
+    ],
+    "name": "observe",
+    "outputs": [
+      {
+        "internalType": "int56[]",
+        "name": "tickCumulatives",
+        "type": "int56[]"
+      },
+      {
+        "internalType": "uint160[]",
+        "name": "secondsPerLiquidityCumulativeX128s",
+        "type": "uint160[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "recipient",
+        "type": "address"
+      },
+      {
+        "internalType": "bool",
+        "name": "zeroForOne",
+        "type": "bool"
+      },
+      {
+        "internalType": "int256",
+        "name": "amountSpecified",
+        "type": "int256"
+      },
+      {
+        "internalType": "uint160",
+        "name": "sqrtPriceLimitX96",
+        "type": "uint160"
+      },
+      {
+        "internalType": "bytes",
+        "name": "data",
+        "type": "bytes"
+      }
+    ],
+    "name": "swap",
+    "outputs": [
+      {
+        "internalType": "int256",
+        "name": "amount0",
+        "type": "int256"
+      },
+      {
+        "internalType": "int256",
+        "name": "amount1",
+        "type": "int256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "token0",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "token1",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+export const ABIS = {
+  MockUniswapTokenPair,
+  MockUniswapV3Pool,
+  Multicall3,
+  OpenOraclePriceData,
+  OpenOracleView,
+  UniswapAnchoredView,
+  UniswapV2Pair,
+  UniswapV3Pool
+};
@@ -0,0 +1,90 @@
+import { BigNumber as BN } from 'bignumber.js';
+import { logger } from './logger';
+
+export interface QuorumOptions {
+  // Min number of sources that need to agree on an asset's price before any of them is posted
+  min: number
+  // Max percent a source's price may differ from the median and still agree with it
+  tolerance: number
+}
+
+interface PricedItem {
+  symbol: string
+  price: number
+}
+
+// Compares the prices each source reported for the same asset, and only keeps
+// the messages of sources that agree with the median price. An asset is dropped
+// entirely when fewer than `quorum.min` sources agree, so that a single broken
+// or compromised source can't move the price on its own. Items are given and
+// returned grouped by source.
+//
+// A source that reports an asset more than once counts once, with the median
+// of its own prices, so that it can neither make up a quorum nor pull the
+// median by repeating a price.
+export function aggregateFeedItems<T extends PricedItem>(itemsBySource: T[][], quorum: QuorumOptions): T[][] {
+  const sourcePrices = itemsBySource.map(sourcePricesBySymbol);
+  const pricesBySymbol: {[symbol: string]: number[]} = {};
+  sourcePrices.forEach(prices => {
+    Object.entries(prices).forEach(([symbol, price]) => {
+      pricesBySymbol[symbol] = [...(pricesBySymbol[symbol] || []), price];
+    });
+  });
+
+  const medians: {[symbol: string]: number} = {};
+  Object.entries(pricesBySymbol).forEach(([symbol, prices]) => {
+    const median = medianPrice(prices);
+    const agreeing = prices.filter(price => agrees(price, median, quorum.tolerance)).length;
+    const spread = priceSpread(prices, median);
+
+    if (agreeing < quorum.min) {
+      logger.warn('Not posting, too few sources agree', {symbol, agreeing, sources: prices.length, tolerance: quorum.tolerance, median, spread, quorum: quorum.min});
+    } else {
+      logger.info('Aggregated prices', {symbol, agreeing, sources: prices.length, tolerance: quorum.tolerance, median, spread});
+      medians[symbol] = median;
+    }
+  });
+
+  return itemsBySource.map((items, i) => {
+    return items.filter(({symbol, price}) => {
+      const median = medians[symbol];
+
+      return median !== undefined && agrees(sourcePrices[i][symbol], median, quorum.tolerance) && agrees(price, median, quorum.tolerance);
+    });
+  });
+}
+
+function sourcePricesBySymbol(items: PricedItem[]): {[symbol: string]: number} {
+  const prices: {[symbol: string]: number[]} = {};
+  items.forEach(({symbol, price}) => {
+    prices[symbol] = [...(prices[symbol] || []), price];
+  });
+
+  return Object.fromEntries(Object.entries(prices).map(([symbol, symbolPrices]) => [symbol, medianPrice(symbolPrices)]));
+}
+
+export function medianPrice(prices: number[]): number {
+  const sorted = [...prices].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+
+  if (sorted.length % 2 === 0) {
+    return new BN(sorted[mid - 1]).plus(sorted[mid]).dividedBy(2).toNumber();
+  }
+
+  return sorted[mid];
+}
+
+// The difference between the highest and lowest price, as a percent of the median
+export function priceSpread(prices: number[], median: number): number {
+  if (median === 0) {
+    return 0;
+  }
+
+  return new BN(Math.max(...prices)).minus(Math.min(...prices)).dividedBy(median).multipliedBy(100).decimalPlaces(4).toNumber();
+}
+
+function agrees(price: number, median: number, tolerance: number): boolean {
+  const maxDifference = new BN(median).multipliedBy(tolerance).dividedBy(100);
+
+  return new BN(price).minus(median).abs().isLessThanOrEqualTo(maxDifference);
+}
@@ -0,0 +1,98 @@
+import { BigNumber as BN } from 'bignumber.js';
+import { logger } from './logger';
+
+// Gas estimates are raised by half, as the view may take more expensive paths
+// once earlier transactions have changed its prices
+export const GAS_ESTIMATE_MULTIPLIER = 1.5;
+
+export interface Batch<T> {
+  items: T[]
+  // Gas limit to send the batch with
+  gas: number
+}
+
+interface PricedItem {
+  symbol: string
+  price: number
+  prev: number
+}
+
+// Splits feed items into batches that each fit in `maxGas`, keeping the
+// messages of an asset together. Assets that moved furthest from their
+// on-chain price go first, so they are posted even if a later batch fails.
+//
+// Nodes fail to estimate transactions that need more than the block gas
+// limit, so a failed estimate is taken as a batch that's too big.
+export async function splitBatches<T extends PricedItem>(
+    feedItems: T[],
+    maxGas: number,
+    estimateGas: (items: T[]) => Promise<number>): Promise<Batch<T>[]> {
+
+  let remaining = groupBySymbol(feedItems);
+  const batches: Batch<T>[] = [];
+
+  while (remaining.length > 0) {
+    let count = remaining.length;
+    let gas = await adjustedEstimate(remaining.slice(0, count).flat(), estimateGas);
+
+    while ((gas instanceof Error || gas > maxGas) && count > 1) {
+      // Guess how many assets fit from the gas each one took, and keep
+      // shrinking from there. Without an estimate, halve the batch.
+      count = gas instanceof Error ?
+        Math.ceil(count / 2) :
+        Math.max(1, Math.min(count - 1, Math.floor(count * maxGas / gas)));
+      gas = await adjustedEstimate(remaining.slice(0, count).flat(), estimateGas);
+    }
+
+    if (gas instanceof Error) {
+      throw new Error(`Could not estimate gas for posting ${remaining[0][0].symbol} on its own: ${gas.message}`);
+    }
+    if (gas > maxGas) {
+      throw new Error(`Posting ${remaining[0][0].symbol} on its own needs ${gas} gas, more than the max of ${maxGas} per transaction`);
+    }
+
+    batches.push({items: remaining.slice(0, count).flat(), gas});
+    remaining = remaining.slice(count);
+  }
+
+  if (batches.length > 1) {
+    logger.info('Splitting post into several transactions', {
+      transactions: batches.length,
+      max_gas: maxGas,
+      symbols: batches.map(({items}) => [...new Set(items.map(({symbol}) => symbol))])
+    });
+  }
+
+  return batches;
+}
+
+// Percent an item's price moved from its on-chain price
+export function deviation({price, prev}: PricedItem): number {
+  if (!prev) {
+    return Infinity;
+  }
+
+  return new BN(price).minus(prev).abs().dividedBy(prev).multipliedBy(100).toNumber();
+}
+
+// Items grouped by symbol, with the groups that moved the most first
+function groupBySymbol<T extends PricedItem>(feedItems: T[]): T[][] {
+  const groups: {[symbol: string]: T[]} = {};
+  feedItems.forEach(item => {
+    groups[item.symbol] = [...(groups[item.symbol] || []), item];
+  });
+
+  const maxDeviation = (items: T[]) => Math.max(...items.map(deviation));
+
+  return Object.values(groups).sort((a, b) => maxDeviation(b) - maxDeviation(a));
+}
+
+// The raised estimate for posting `items`, or why it could not be estimated
+async function adjustedEstimate<T>(items: T[], estimateGas: (items: T[]) => Promise<number>): Promise<number | Error> {
+  try {
+    return Math.floor(await estimateGas(items) * GAS_ESTIMATE_MULTIPLIER);
+  } catch (e) {
+    logger.debug('Could not estimate gas for batch', {items: items.length, error: e});
+    return e instanceof Error ? e : new Error(String(e));
+  }
+}
@@ -0,0 +1,442 @@
+import Ajv from 'ajv';
+import fs from 'fs';
+import path from 'path';
+import Web3 from 'web3';
+import YAML from 'yaml';
+import { QuorumOptions } from './aggregate';
+import { postPricesFunction } from './contracts';
+import { GUARDED_POLICIES, GuardedPolicy } from './events';
+import { FeeModel, GasStrategy, parseGasStrategy } from './fees';
+import { READ_MODES, ReadMode } from './multicall';
+import { getNetwork } from './networks';
+import { parsePriceDeltas, PricePolicy, validatePricePolicy } from './policy';
+import { parseSource } from './sources';
+
+// `open-oracle` views take signed messages from sources through `postPrices`,
+// `uav` is the `UniswapAnchoredView` fed by Chainlink validators, where the
+// poster only pokes the prices of failed over assets
+export type ViewType = 'open-oracle' | 'uav';
+
+export const VIEW_TYPES: ViewType[] = ['open-oracle', 'uav'];
+
+// Everything needed to post to a single chain, whether it comes from the
+// command line or from a config file
+export interface ChainConfig {
+  name: string
+  web3Provider: string
+  // Named network profile the defaults below come from, see `NETWORKS`
+  network?: string
+  // Chain the provider has to be connected to, also used to look up addresses
+  // from address files, see `AddressRef`
+  chainId?: number
+  // Blocks to wait for after a transaction is mined
+  confirmations: number
+  viewAddress: string
+  viewType: ViewType
+  viewFunction: string
+  posterKey: string
+  keystorePassphrase?: string
+  signerAddress?: string
+  sources: string[]
+  assets: string[]
+  priceDeltas: {[asset: string]: PricePolicy}
+  heartbeats: {[asset: string]: number}
+  maxMessageAges: {[asset: string]: number}
+  maxClockSkews: {[asset: string]: number}
+  quorum?: QuorumOptions
+  minHealthySources: number
+  reporters?: string[]
+  // How on-chain prices are read, see `ReadMode`
+  batchReads: ReadMode
+  multicallAddress?: string
+  // Whether a run fails or only warns when posted prices are guarded
+  onGuarded: GuardedPolicy
+  gasLimit: number
+  // Max gas a single post may use, see `PosterOptions.maxGasPerTx`
+  maxGasPerTx?: number
+  gasPrice?: number
+  gasStrategy?: GasStrategy
+  feeModel: FeeModel
+  // Seconds to wait for a transaction before retrying it
+  timeout: number
+  mockedWorld: boolean
+  pairs: {testnet: {[asset: string]: string}, mainnet: {[asset: string]: string}}
+  // Where the testnet world reads mainnet pairs from, a node or a snapshot file
+  mainnetWeb3Provider?: string
+  mainnetSnapshot?: string
+}
+
+// An address recorded in a deployment file, which maps contract names either to
+// an address, like the `.build/<network>.json` files, or to addresses by chain id.
+// The contract has to be a price view the poster can post to, see `VIEW_CONTRACTS`.
+export interface AddressRef {
+  file: string
+  contract: string
+}
+
+// Names deployment files record the views the poster can post to under. Other
+// contracts in those files, such as the Chainlink `priceOracle` of the zkSync
+// deployments, have no `priceData` or `postPrices`.
+export const VIEW_CONTRACTS = ['AnchoredPriceView', 'AnchoredView', 'DelFiPrice', 'OpenOracleView', 'UniswapAnchoredView'];
+
+export const DEFAULT_VIEW_FUNCTION = 'postPrices(bytes[],bytes[],string[])';
+export const DEFAULT_GAS_LIMIT = 4000000;
+export const DEFAULT_BATCH_READS: ReadMode = 'none';
+
+// Assets posted when none are given on the command line
+export const DEFAULT_ASSETS = ['BTC', 'ETH', 'DAI', 'REP', 'ZRX', 'BAT', 'KNC', 'LINK', 'COMP'];
+
+const secondsByAsset = {
+  type: 'object',
+  additionalProperties: {type: 'number', minimum: 0}
+};
+
+const chainProperties = {
+  name: {type: 'string', minLength: 1},
+  web3_provider: {type: 'string', minLength: 1},
+  network: {type: 'string'},
+  chain_id: {type: 'integer', minimum: 1},
+  confirmations: {type: 'integer', minimum: 0},
+  view_address: {
+    oneOf: [
+      {type: 'string', pattern: '^0x[0-9a-fA-F]{40}$'},
+      {
+        type: 'object',
+        required: ['file', 'contract'],
+        additionalProperties: false,
+        properties: {file: {type: 'string'}, contract: {type: 'string'}}
+      }
+    ]
+  },
+  view_type: {enum: VIEW_TYPES},
+  view_function: {type: 'string', minLength: 1},
+  poster_key: {type: 'string', minLength: 1},
+  keystore_passphrase: {type: 'string'},
+  signer_address: {type: 'string'},
+  sources: {
+    type: 'array',
+    minItems: 1,
+    items: {oneOf: [{type: 'string'}, {type: 'object', required: ['source']}]}
+  },
+  assets: {type: 'array', minItems: 1, items: {type: 'string'}},
+  price_deltas: {
+    type: 'object',
+    additionalProperties: {
+      oneOf: [
+        {type: 'number', minimum: 0},
+        {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            delta: {type: 'number'},
+            up: {type: 'number'},
+            down: {type: 'number'},
+            absolute: {type: 'number'},
+            min_interval: {type: 'integer'},
+            disabled: {type: 'boolean'}
+          }
+        }
+      ]
+    }
+  },
+  heartbeats: secondsByAsset,
+  max_message_age: secondsByAsset,
+  max_clock_skew: secondsByAsset,
+  quorum: {
+    type: 'object',
+    required: ['min'],
+    additionalProperties: false,
+    properties: {min: {type: 'integer', minimum: 1}, tolerance: {type: 'number', minimum: 0}}
+  },
+  min_healthy_sources: {type: 'integer', minimum: 1},
+  reporters: {type: 'array', items: {type: 'string'}},
+  batch_reads: {type: 'string'},
+  multicall_address: {type: 'string'},
+  on_guarded: {enum: GUARDED_POLICIES},
+  gas: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      limit: {type: 'integer', minimum: 21000},
+      max_per_tx: {type: 'integer', minimum: 21000},
+      price: {type: 'number', minimum: 0},
+      legacy: {type: 'boolean'},
+      // A strategy name, or a strategy object, see `GasStrategy`
+      strategy: {
+        oneOf: [
+          {type: 'string'},
+          {
+            type: 'object',
+            required: ['type'],
+            additionalProperties: false,
+            properties: {
+              type: {type: 'string'},
+              value: {type: 'number'},
+              percentile: {type: 'number'},
+              blocks: {type: 'integer'},
+              url: {type: 'string'},
+              min: {type: 'number'},
+              max: {type: 'number'},
+              urgency: {
+                type: 'object',
+                required: ['threshold', 'multiplier'],
+                additionalProperties: false,
+                properties: {threshold: {type: 'number'}, multiplier: {type: 'number'}}
+              }
+            }
+          }
+        ]
+      }
+    }
+  },
+  timeout: {type: 'number', minimum: 1},
+  testnet_world: {type: 'boolean'},
+  testnet_uniswap_pairs: {type: 'object', additionalProperties: {type: 'string'}},
+  mainnet_uniswap_pairs: {type: 'object', additionalProperties: {type: 'string'}},
+  mainnet_web3_provider: {type: 'string', minLength: 1},
+  mainnet_snapshot: {type: 'string', minLength: 1}
+};
+
+export const CONFIG_SCHEMA = {
+  type: 'object',
+  required: ['chains'],
+  additionalProperties: false,
+  properties: {
+    // Settings shared by every chain, which each chain may override
+    defaults: {
+      type: 'object',
+      additionalProperties: false,
+      properties: chainProperties
+    },
+    chains: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        properties: chainProperties
+      }
+    }
+  }
+};
+
+// Loads the chains to post to from a YAML or JSON config file. Relative paths
+// in the file, such as address files, are resolved from the file's directory.
+export function loadConfig(file: string): ChainConfig[] {
+  let raw;
+  try {
+    // YAML is a superset of JSON, so this reads either
+    raw = YAML.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e) {
+    throw new TypeError(`Could not read config file ${file}: ${e.message}`);
+  }
+
+  return parseConfig(raw, path.dirname(file));
+}
+
+export function parseConfig(raw: any, baseDir: string = process.cwd()): ChainConfig[] {
+  const ajv = new Ajv({allErrors: true});
+  if (!ajv.validate(CONFIG_SCHEMA, raw)) {
+    throw new TypeError(`Invalid config: ${ajv.errorsText(ajv.errors, {dataVar: 'config'})}`);
+  }
+
+  const chains = raw.chains.map((chain, i) => toChainConfig(withDefaults(raw.defaults || {}, chain), i, baseDir));
+  const names = chains.map(({name}) => name);
+  names.forEach((name, i) => {
+    if (names.indexOf(name) !== i) {
+      throw new TypeError(`Chain names should be unique, ${name} is used more than once`);
+    }
+  });
+
+  chains.forEach(validateChain);
+
+  return chains;
+}
+
+// Chain settings over the defaults. Objects, such as `gas` or `price_deltas`, are
+// merged key by key, so that a chain overriding one key keeps the others.
+function withDefaults(defaults: object, chain: object): any {
+  const merged = {...defaults};
+  for (const [key, value] of Object.entries(chain)) {
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key]) ? withDefaults(merged[key], value) : value;
+  }
+
+  return merged;
+}
+
+function isPlainObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Checks the parts of a chain config that depend on each other, which the
+// schema can't express
+export function validateChain(chain: ChainConfig) {
+  if (chain.viewType === 'open-oracle') {
+    validateSources(chain);
+  }
+
+  // check that price deltas are set up for all assets
+  chain.assets.forEach(asset => {
+    validatePricePolicy(asset, chain.priceDeltas[asset]);
+
+    // the view keeps no timestamps of its prices to hold them back by
+    if (chain.viewType === 'uav' && chain.priceDeltas[asset].minInterval !== undefined) {
+      throw new TypeError(`Price delta \`min_interval\` of ${asset} is not supported by the uav view type`)
+    }
+  });
+
+  checkSecondsByAsset('heartbeats', chain.heartbeats, false);
+  checkSecondsByAsset('max-message-age', chain.maxMessageAges, false);
+  checkSecondsByAsset('max-clock-skew', chain.maxClockSkews, true);
+
+  if (!READ_MODES.includes(chain.batchReads)) {
+    throw new TypeError(`Batch reads should be one of: ${READ_MODES.join(', ')}, got ${chain.batchReads}`)
+  }
+
+  if (chain.multicallAddress !== undefined && !Web3.utils.isAddress(chain.multicallAddress)) {
+    throw new TypeError(`Multicall address should be an address, got ${chain.multicallAddress}`)
+  }
+
+  if (chain.maxGasPerTx !== undefined && !(Number.isInteger(chain.maxGasPerTx) && chain.maxGasPerTx >= 21000)) {
+    throw new TypeError(`Max gas per transaction should be a whole number of at least 21000, got ${chain.maxGasPerTx}`)
+  }
+
+  if (chain.gasPrice !== undefined && chain.gasStrategy !== undefined) {
+    throw new TypeError(`Set either a gas price or a gas strategy, not both`)
+  }
+
+  (chain.reporters || []).forEach(reporter => {
+    if (!Web3.utils.isAddress(reporter)) {
+      throw new TypeError(`Reporter should be an address, got ${reporter}`)
+    }
+  });
+
+  if (chain.mockedWorld) {
+    chain.assets.forEach(asset => {
+      if (!chain.pairs.testnet[asset] || !chain.pairs.mainnet[asset]) {
+        throw new TypeError(`For each asset mainnet and testnet pairs should be provided, ${asset} asset is not properly configured`)
+      }
+    });
+
+    // the view converts every anchor by the ETH one
+    if (chain.viewType === 'uav' && (!chain.pairs.testnet['ETH'] || !chain.pairs.mainnet['ETH'])) {
+      throw new TypeError('The uav view type anchors every asset to ETH, so mainnet and testnet ETH pools should be provided')
+    }
+  }
+
+  if (chain.mainnetWeb3Provider !== undefined && chain.mainnetSnapshot !== undefined) {
+    throw new TypeError('Set either a mainnet web3 provider or a mainnet snapshot, not both')
+  }
+}
+
+// Checks what only matters to views that are posted to from sources
+function validateSources(chain: ChainConfig) {
+  // fail fast on misconfigured sources, rather than on the first run
+  chain.sources.forEach(parseSource);
+
+  // fail fast on view functions the poster can't encode posts for
+  postPricesFunction(chain.viewFunction);
+
+  const sourceCount = chain.sources.length;
+  if (chain.quorum) {
+    if (!Number.isInteger(chain.quorum.min) || chain.quorum.min < 1 || chain.quorum.min > sourceCount) {
+      throw new TypeError(`Quorum should be a whole number between 1 and the number of sources (${sourceCount}), got ${chain.quorum.min}`)
+    }
+    if (!(chain.quorum.tolerance >= 0)) {
+      throw new TypeError(`Quorum tolerance should be a non-negative percent, got ${chain.quorum.tolerance}`)
+    }
+  }
+
+  if (!Number.isInteger(chain.minHealthySources) || chain.minHealthySources < 1 || chain.minHealthySources > sourceCount) {
+    throw new TypeError(`Min healthy sources should be a whole number between 1 and the number of sources (${sourceCount}), got ${chain.minHealthySources}`)
+  }
+}
+
+export function resolveAddress(ref: AddressRef, chainId: number | undefined, baseDir: string): string {
+  if (!VIEW_CONTRACTS.includes(ref.contract)) {
+    throw new TypeError(`View address should be of a price view, one of: ${VIEW_CONTRACTS.join(', ')}, got ${ref.contract}`);
+  }
+
+  const file = path.resolve(baseDir, ref.file);
+  const addresses = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const entry = addresses[ref.contract];
+  // files of a single network record the address itself
+  if (typeof entry === 'string') {
+    return entry;
+  }
+  if (chainId === undefined) {
+    throw new TypeError(`A chain_id or network is needed to look up ${ref.contract} in ${ref.file}`);
+  }
+
+  const address = (entry || {})[chainId];
+  if (!address) {
+    throw new TypeError(`No ${ref.contract} address for chain ${chainId} in ${file}`);
+  }
+
+  return address;
+}
+
+function toChainConfig(raw: any, index: number, baseDir: string): ChainConfig {
+  const name = raw.name || `chain-${index}`;
+  const network = getNetwork(raw.network, raw.web3_provider);
+  const chainId = raw.chain_id !== undefined ? raw.chain_id : network.chainId;
+  const required = (field: string) => {
+    if (raw[field] === undefined) {
+      throw new TypeError(`Chain ${name} requires a \`${field}\` field`);
+    }
+
+    return raw[field];
+  };
+
+  const viewAddress = required('view_address');
+  const viewType = raw.view_type || 'open-oracle';
+  // a UAV is fed by Chainlink validators, not by sources
+  const sources: string[] = (viewType === 'uav' ? (raw.sources || []) : required('sources')).map(source => typeof source === 'string' ? source : JSON.stringify(source));
+  const gas = raw.gas || {};
+  const testnetPairs = raw.testnet_uniswap_pairs || {};
+  const mainnetPairs = raw.mainnet_uniswap_pairs || {};
+
+  return {
+    name,
+    web3Provider: required('web3_provider'),
+    network: raw.network,
+    chainId,
+    confirmations: raw.confirmations !== undefined ? raw.confirmations : network.confirmations,
+    viewAddress: typeof viewAddress === 'string' ? viewAddress : resolveAddress(viewAddress, chainId, baseDir),
+    viewType,
+    viewFunction: raw.view_function || DEFAULT_VIEW_FUNCTION,
+    posterKey: required('poster_key'),
+    keystorePassphrase: raw.keystore_passphrase,
+    signerAddress: raw.signer_address,
+    sources,
+    assets: required('assets'),
+    priceDeltas: parsePriceDeltas(required('price_deltas')),
+    heartbeats: raw.heartbeats || {},
+    maxMessageAges: raw.max_message_age || {},
+    maxClockSkews: raw.max_clock_skew || {},
+    quorum: raw.quorum ? {min: raw.quorum.min, tolerance: raw.quorum.tolerance === undefined ? 1 : raw.quorum.tolerance} : undefined,
+    minHealthySources: raw.min_healthy_sources === undefined ? sources.length : raw.min_healthy_sources,
+    reporters: raw.reporters,
+    batchReads: raw.batch_reads || DEFAULT_BATCH_READS,
+    onGuarded: raw.on_guarded || 'warn',
+    multicallAddress: raw.multicall_address,
+    gasLimit: gas.limit || DEFAULT_GAS_LIMIT,
+    maxGasPerTx: gas.max_per_tx,
+    gasPrice: gas.price,
+    gasStrategy: gas.strategy === undefined ? undefined : parseGasStrategy(gas.strategy),
+    feeModel: gas.legacy === undefined ? network.feeModel : (gas.legacy ? 'legacy' : 'eip1559'),
+    timeout: raw.timeout || network.timeout,
+    mockedWorld: raw.testnet_world || false,
+    pairs: {testnet: testnetPairs, mainnet: mainnetPairs},
+    mainnetWeb3Provider: raw.mainnet_web3_provider,
+    mainnetSnapshot: raw.mainnet_snapshot === undefined ? undefined : path.resolve(baseDir, raw.mainnet_snapshot)
+  };
+}
+
+function checkSecondsByAsset(option: string, secondsByAsset: {[asset: string]: number}, allowZero: boolean) {
+  Object.entries(secondsByAsset).forEach(([asset, seconds]) => {
+    if (typeof seconds !== 'number' || seconds < 0 || (seconds === 0 && !allowZero)) {
+      throw new TypeError(`--${option} should be a ${allowZero ? 'non-negative' : 'positive'} number of seconds, ${asset} asset is not properly configured`)
+    }
+  });
+}
@@ -0,0 +1,357 @@
+import AbiCoder from 'web3-eth-abi';
+import Web3 from 'web3';
+import { TransactionConfig } from 'web3-core';
+import { AbiItem } from 'web3-utils';
+import { logger } from './logger';
+import { findTypes } from './util';
+import { ABIS as abis } from './abi';
+
+// Typed bindings for the contracts the poster talks to, built from the ABIs in
+// `abi/`. Reads are `eth_call`s decoded by the function's outputs, writes only
+// build the transaction, which is then signed and sent like any other post.
+//
+// The names, arguments and named outputs of every call are taken from the ABIs
+// by the compiler, so a binding that no longer matches its contract fails to
+// build. Regenerate `abi/` with `yarn abis` after changing a contract.
+
+export type ContractName = keyof typeof abis;
+
+export const ABIS = <{[C in ContractName]: AbiItem[]}><unknown>abis;
+
+type AbiFunctions<C extends ContractName> = Extract<(typeof abis)[C][number], {type: 'function'}>;
+
+export type FunctionName<C extends ContractName> = AbiFunctions<C>['name'];
+
+type AbiParams<C extends ContractName, N, Kind extends 'inputs' | 'outputs'> = Extract<AbiFunctions<C>, {name: N}>[Kind];
+
+// Values web3 takes, and returns, for Solidity types. Integers are numbers,
+// decimal strings or BNs going in and decimal strings coming out, and tuples are
+// left untyped.
+interface SolidityValues {
+  address: string
+  bool: boolean
+  bytes: string
+  bytes32: string
+  string: string
+  'bytes[]': string[]
+  'string[]': string[]
+}
+
+type SolidityValue<T> = T extends keyof SolidityValues ? SolidityValues[T] : any;
+
+type ArgumentValues<T> = {-readonly [K in keyof T]: T[K] extends {type: infer S} ? SolidityValue<S> : never};
+
+// Arguments of a function, one per input. Overloads take any of their inputs.
+export type FunctionArgs<C extends ContractName, N> = ArgumentValues<AbiParams<C, N, 'inputs'>>;
+
+type OutputNames<C extends ContractName, N> = AbiParams<C, N, 'outputs'>[number]['name'];
+
+// Decoded outputs, by name and by position, as web3 returns them
+export type FunctionResult<C extends ContractName, N> = {
+  [O in OutputNames<C, N>]: SolidityValue<Extract<AbiParams<C, N, 'outputs'>[number], {name: O}>['type']>
+} & {[index: number]: any};
+
+export interface OpenOracleView {
+  address: string
+  priceData(): Promise<string>
+  // `functionSig` picks the `postPrices` overload, see `encodePostPrices`
+  postPrices(functionSig: string, messages: string[], signatures: string[], symbols: string[]): TransactionConfig
+}
+
+export interface OpenOraclePriceData {
+  address: string
+  // Reporter that signed a message
+  source(message: string, signature: string): Promise<string>
+  get(source: string, key: string): Promise<{timestamp: string, value: string}>
+  getPrice(source: string, key: string): Promise<string>
+}
+
+// The current view, which takes prices from Chainlink validators and anchors
+// them to Uniswap V3 TWAPs
+export interface UniswapAnchoredView {
+  address: string
+  prices(symbolHash: string): Promise<{price: string, failoverActive: boolean}>
+  // Seconds the anchor TWAP is taken over
+  anchorPeriod(): Promise<string>
+  getTokenConfigBySymbolHash(symbolHash: string): Promise<TokenConfig>
+  // Sets the price of a failed over asset to its anchor
+  pokeFailedOverPrice(symbolHash: string): TransactionConfig
+}
+
+export interface TokenConfig {
+  cToken: string
+  underlying: string
+  symbolHash: string
+  baseUnit: string
+  // 0 for a fixed ETH multiple, 1 for a fixed USD price, 2 for reported
+  priceSource: string
+  fixedPrice: string
+  uniswapMarket: string
+  reporter: string
+  reporterMultiplier: string
+  isUniswapReversed: boolean
+}
+
+export interface UniswapV3Pool {
+  address: string
+  observe(secondsAgos: number[]): Promise<{tickCumulatives: string[], secondsPerLiquidityCumulativeX128s: string[]}>
+}
+
+export interface UniswapV2Pair {
+  address: string
+  getReserves(): Promise<{reserve0: string, reserve1: string, blockTimestampLast: string}>
+  price0CumulativeLast(): Promise<string>
+  price1CumulativeLast(): Promise<string>
+}
+
+export interface MockUniswapTokenPair {
+  address: string
+  update(reserve0: string, reserve1: string, blockTimestampLast: string, price0CumulativeLast: string, price1CumulativeLast: string): TransactionConfig
+}
+
+// `contracts/test/MockUniswapV3Pool.sol`, which answers `observe` for the
+// `secondsAgos` it was given
+export interface MockUniswapV3Pool {
+  address: string
+  setObservations(secondsAgos: number[], tickCumulatives: string[], secondsPerLiquidityCumulativeX128s: string[]): TransactionConfig
+}
+
+// A read that is encoded but not sent yet, so that it can be batched with
+// others, see `readAll`
+export interface PreparedCall<T = any> {
+  to: string
+  data: string
+  // Decodes the call's outputs from its return data
+  decode(result: string): T
+}
+
+// Inputs a function posting prices takes, with and without the symbols
+const POST_PRICES_INPUTS = ['bytes[],bytes[],string[]', 'bytes[],bytes[]'];
+
+// Selector of the `Error(string)` revert data emitted by `require` and `revert`
+const ERROR_SELECTOR = '0x08c379a0';
+
+export function openOracleView(address: string, web3: Web3): OpenOracleView {
+  const call = bindCalls('OpenOracleView', address, web3);
+
+  return {
+    address,
+    priceData: async () => (await call('priceData', []))[0],
+    postPrices: (functionSig, messages, signatures, symbols) => ({
+      to: address,
+      data: encodePostPrices(functionSig, messages, signatures, symbols)
+    })
+  };
+}
+
+export function openOraclePriceData(address: string, web3: Web3): OpenOraclePriceData {
+  const call = bindCalls('OpenOraclePriceData', address, web3);
+
+  return {
+    address,
+    source: async (message, signature) => (await call('source', [message, signature]))[0],
+    get: async (source, key) => {
+      const { timestamp, value } = await call('get', [source, key]);
+
+      return { timestamp, value };
+    },
+    getPrice: async (source, key) => (await call('getPrice', [source, key]))[0]
+  };
+}
+
+export function uniswapAnchoredView(address: string, web3: Web3): UniswapAnchoredView {
+  const call = bindCalls('UniswapAnchoredView', address, web3);
+
+  return {
+    address,
+    prices: async (symbolHash) => {
+      const { price, failoverActive } = await call('prices', [symbolHash]);
+
+      return { price, failoverActive };
+    },
+    anchorPeriod: async () => (await call('anchorPeriod', []))[0],
+    getTokenConfigBySymbolHash: async (symbolHash) => {
+      const config = (await call('getTokenConfigBySymbolHash', [symbolHash]))[0];
+
+      return {
+        cToken: config.cToken,
+        underlying: config.underlying,
+        symbolHash: config.symbolHash,
+        baseUnit: config.baseUnit,
+        priceSource: config.priceSource,
+        fixedPrice: config.fixedPrice,
+        uniswapMarket: config.uniswapMarket,
+        reporter: config.reporter,
+        reporterMultiplier: config.reporterMultiplier,
+        isUniswapReversed: config.isUniswapReversed
+      };
+    },
+    pokeFailedOverPrice: (symbolHash) => ({
+      to: address,
+      data: encodeCall('UniswapAnchoredView', 'pokeFailedOverPrice', [symbolHash])
+    })
+  };
+}
+
+export function uniswapV3Pool(address: string, web3: Web3): UniswapV3Pool {
+  const call = bindCalls('UniswapV3Pool', address, web3);
+
+  return {
+    address,
+    observe: async (secondsAgos) => {
+      const { tickCumulatives, secondsPerLiquidityCumulativeX128s } = await call('observe', [secondsAgos]);
+
+      return { tickCumulatives, secondsPerLiquidityCumulativeX128s };
+    }
+  };
+}
+
+export function uniswapV2Pair(address: string, web3: Web3): UniswapV2Pair {
+  const call = bindCalls('UniswapV2Pair', address, web3);
+
+  return {
+    address,
+    getReserves: async () => {
+      const { reserve0, reserve1, blockTimestampLast } = await call('getReserves', []);
+
+      return { reserve0, reserve1, blockTimestampLast };
+    },
+    price0CumulativeLast: async () => (await call('price0CumulativeLast', []))[0],
+    price1CumulativeLast: async () => (await call('price1CumulativeLast', []))[0]
+  };
+}
+
+export function mockUniswapTokenPair(address: string): MockUniswapTokenPair {
+  return {
+    address,
+    update: (...args) => ({
+      to: address,
+      data: encodeCall('MockUniswapTokenPair', 'update', args)
+    })
+  };
+}
+
+export function mockUniswapV3Pool(address: string): MockUniswapV3Pool {
+  return {
+    address,
+    setObservations: (secondsAgos, tickCumulatives, secondsPerLiquidityCumulativeX128s) => ({
+      to: address,
+      // web3 pads decimal strings longer than an `int56` is wide as if they
+      // were hex, which BNs skip
+      data: encodeCall('MockUniswapV3Pool', 'setObservations', [
+        secondsAgos,
+        tickCumulatives.map(tickCumulative => Web3.utils.toBN(tickCumulative)),
+        secondsPerLiquidityCumulativeX128s
+      ])
+    })
+  };
+}
+
+// Calldata posting messages through the view. Views take either
+// `postPrices(bytes[],bytes[],string[])` or the older `postPrices(bytes[],bytes[])`,
+// which leaves out the symbols, or another function with the same inputs.
+export function encodePostPrices(functionSig: string, messages: string[], signatures: string[], symbols: string[]): string {
+  const fn = postPricesFunction(functionSig);
+
+  return (<any>AbiCoder).encodeFunctionCall(fn, [messages, signatures, symbols].slice(0, (fn.inputs || []).length));
+}
+
+// The function of the view posting is sent to, from the view's ABI, or built
+// from `functionSig` for views posted to through a function the ABI doesn't have,
+// e.g. `writePrices(bytes[],bytes[],string[])`
+export function postPricesFunction(functionSig: string): AbiItem {
+  const known = ABIS.OpenOracleView.some(fn => fn.type === 'function' && (fn.name === functionSig || signature(fn) === functionSig));
+  if (known) {
+    const fn = abiFunction('OpenOracleView', functionSig);
+    if (fn.name !== 'postPrices') {
+      throw new TypeError(`View function should be one of the postPrices functions, got ${functionSig}`);
+    }
+
+    return fn;
+  }
+
+  let types: string[];
+  try {
+    types = findTypes(functionSig);
+  } catch (e) {
+    throw new TypeError(`View function should be a function signature, e.g. postPrices(bytes[],bytes[],string[]), got ${functionSig}`);
+  }
+  if (!POST_PRICES_INPUTS.includes(types.join(','))) {
+    throw new TypeError(`View function should take the messages, signatures and optionally the symbols, as (${POST_PRICES_INPUTS.join(') or (')}), got ${functionSig}`);
+  }
+
+  return {
+    type: 'function',
+    name: functionSig.slice(0, functionSig.indexOf('(')),
+    inputs: types.map(type => ({name: '', type})),
+    outputs: [],
+    stateMutability: 'nonpayable'
+  };
+}
+
+// Looks up a function of a contract by name, or by signature for overloaded ones
+export function abiFunction(contract: ContractName, nameOrSignature: string): AbiItem {
+  const functions = ABIS[contract].filter(({type}) => type === 'function');
+  const matches = functions.filter(fn => fn.name === nameOrSignature || signature(fn) === nameOrSignature);
+
+  if (matches.length === 0) {
+    throw new TypeError(`Unknown ${contract} function \`${nameOrSignature}\`, expected one of: ${functions.map(signature).join(', ')}`);
+  }
+  if (matches.length > 1) {
+    throw new TypeError(`${contract} function \`${nameOrSignature}\` is overloaded, pick one of: ${matches.map(signature).join(', ')}`);
+  }
+
+  return matches[0];
+}
+
+export function signature(fn: AbiItem): string {
+  return `${fn.name}(${(fn.inputs || []).map(({type}) => type).join(',')})`;
+}
+
+export function prepareCall<C extends ContractName, N extends FunctionName<C>>(contract: C, address: string, name: N, args: FunctionArgs<C, N>): PreparedCall<FunctionResult<C, N>> {
+  const fn = abiFunction(contract, name);
+
+  return {
+    to: address,
+    data: encodeCall(contract, name, args),
+    decode: (result) => (<any>AbiCoder).decodeParameters(fn.outputs || [], result)
+  };
+}
+
+export function encodeCall<C extends ContractName, N extends FunctionName<C>>(contract: C, name: N, args: FunctionArgs<C, N>): string {
+  return (<any>AbiCoder).encodeFunctionCall(abiFunction(contract, name), args);
+}
+
+// Why a call or transaction failed, from the `Error(string)` revert data when
+// the node returns it, or from the error message otherwise
+export function revertReason(e, web3: Web3): string {
+  const data = typeof e.data === 'string' ? e.data : e.data && e.data.data;
+  if (typeof data === 'string' && data.startsWith(ERROR_SELECTOR)) {
+    return <string><unknown>web3.eth.abi.decodeParameter('string', '0x' + data.slice(10));
+  }
+
+  const match = /revert:? ?(.*)$/.exec(e.message || '');
+
+  if (match && match[1]) {
+    return match[1];
+  }
+
+  return e.message || (data !== undefined ? 'reverted without a reason' : e.toString());
+}
+
+// Calls view functions of the contract at `address`, decoding their outputs.
+// Failed calls are rethrown with the decoded revert reason.
+function bindCalls<C extends ContractName>(contract: C, address: string, web3: Web3) {
+  return async <N extends FunctionName<C>>(name: N, args: FunctionArgs<C, N>): Promise<FunctionResult<C, N>> => {
+    const { to, data, decode } = prepareCall(contract, address, name, args);
+
+    try {
+      return decode(await web3.eth.call({to, data}));
+    } catch (e) {
+      const reason = revertReason(e, web3);
+      logger.error('Error reading contract', {contract, function: signature(abiFunction(contract, name)), args, address, reason});
+
+      throw new Error(`${contract}.${name} failed at ${address}: ${reason}`);
+    }
+  };
+}
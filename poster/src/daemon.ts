@@ -0,0 +1,63 @@
+export interface Daemon {
+  // Resolves once the loop has exited, i.e. after `stop()` and any in-flight tick
+  done: Promise<void>
+  // Stops scheduling new ticks and waits for the in-flight tick (if any) to settle
+  stop: () => Promise<void>
+}
+
+// Runs `tick` repeatedly, waiting `interval` seconds between the end of one
+// tick and the start of the next. Ticks never overlap, and a failing tick is
+// handed to `onError` rather than stopping the loop.
+export function startDaemon(
+    tick: () => Promise<void>,
+    interval: number,
+    onError: (e: Error) => Promise<void> | void): Daemon {
+
+  // anything else would run ticks back to back, hammering sources and the node
+  if (!(Number.isFinite(interval) && interval > 0)) {
+    throw new TypeError(`Interval should be a positive number of seconds, got ${interval}`);
+  }
+
+  let stopping = false;
+  let wake: (() => void) | undefined;
+  let timer: NodeJS.Timeout | undefined;
+
+  function sleep(seconds: number): Promise<void> {
+    return new Promise(resolve => {
+      wake = resolve;
+      timer = setTimeout(resolve, seconds * 1000);
+    });
+  }
+
+  async function loop() {
+    while (!stopping) {
+      try {
+        await tick();
+      } catch (e) {
+        await onError(e);
+      }
+
+      if (!stopping) {
+        await sleep(interval);
+      }
+    }
+  }
+
+  const done = loop();
+
+  async function stop() {
+    stopping = true;
+
+    // Interrupt the sleep between ticks, an in-flight tick is left to finish
+    if (timer) {
+      clearTimeout(timer);
+    }
+    if (wake) {
+      wake();
+    }
+
+    await done;
+  }
+
+  return { done, stop };
+}
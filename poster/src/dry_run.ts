@@ -0,0 +1,121 @@
+import Web3 from 'web3';
+import { TransactionConfig } from 'web3-core';
+import { postPricesFunction, revertReason } from './contracts';
+import { decodePriceEvents, PriceEvent, RawLog } from './events';
+import { logger } from './logger';
+import { Decision } from './poster';
+import { decodeMessage, sendRpc } from './util';
+
+export interface DryRunReport {
+  // The messages and symbols the transaction would post
+  messages: DecodedMessage[]
+  symbols: string[]
+  // Whether an `eth_call` of the transaction succeeds, and why it reverts if not
+  success: boolean
+  revertReason?: string
+  gasEstimate?: number
+  // Events the transaction would emit, unset when the node can't trace calls
+  events?: PriceEvent[]
+}
+
+// Simulates posting a transaction against the current chain state without
+// signing or sending it
+export async function simulate(transaction: TransactionConfig, functionSig: string, web3: Web3): Promise<DryRunReport> {
+  const { messages, symbols } = decodeCalldata(<string>transaction.data, functionSig, web3);
+  const report: DryRunReport = { messages, symbols, success: true };
+
+  try {
+    await web3.eth.call(transaction);
+  } catch (e) {
+    report.success = false;
+    report.revertReason = revertReason(e, web3);
+  }
+
+  if (report.success) {
+    try {
+      report.gasEstimate = await web3.eth.estimateGas(transaction);
+    } catch (e) {
+      logger.warn('Dry run could not estimate gas', {error: e});
+    }
+
+    try {
+      report.events = decodePriceEvents(await traceLogs(transaction, web3), symbols, web3);
+    } catch (e) {
+      logger.warn('Dry run could not predict events, node does not support debug_traceCall', {error: e});
+    }
+  }
+
+  return report;
+}
+
+// Decodes the messages and symbols from `postPrices`-style calldata
+export function decodeCalldata(data: string, functionSig: string, web3: Web3): {messages: DecodedMessage[], symbols: string[]} {
+  const { '0': messages, '2': symbols } = web3.eth.abi.decodeParameters(postPricesFunction(functionSig).inputs || [], '0x' + data.slice(10));
+
+  return {
+    messages: messages.map(message => decodeMessage(message, web3)),
+    symbols
+  };
+}
+
+// Collects the logs a call would emit, including those of nested calls
+async function traceLogs(transaction: TransactionConfig, web3: Web3): Promise<RawLog[]> {
+  const frame = await sendRpc(web3, 'debug_traceCall', [
+    {from: transaction.from, to: transaction.to, data: transaction.data},
+    'latest',
+    {tracer: 'callTracer', tracerConfig: {withLog: true}}
+  ]);
+
+  const collect = (frame): RawLog[] => [
+    ...(frame.logs || []),
+    ...(frame.calls || []).flatMap(collect)
+  ];
+
+  return collect(frame);
+}
+
+// Prints a report of what a run would have posted, with a report for each
+// transaction it would have sent
+export function printDryRun(reports: DryRunReport[], decisions: Decision[]) {
+  logger.info('Dry run, nothing will be signed or sent');
+  decisions.forEach(({symbol, price, prev, post, reason}) => {
+    logger.info('Dry run decision', {symbol, price, prev_price: prev, post, reason});
+  });
+  if (reports.length === 0) {
+    logger.info('Dry run has nothing to post');
+    return;
+  }
+
+  reports.forEach((report, i) => {
+    logger.info('Dry run transaction', {transaction: i + 1, transactions: reports.length});
+    printReport(report);
+  });
+}
+
+function printReport(report: DryRunReport) {
+  report.messages.forEach(({symbol, price, timestamp}) => {
+    logger.info('Dry run calldata message', {symbol, price, timestamp});
+  });
+  logger.info('Dry run calldata symbols', {symbols: report.symbols});
+
+  if (!report.success) {
+    logger.info('Dry run call reverted', {reason: report.revertReason});
+    return;
+  }
+
+  logger.info('Dry run call succeeded', {gas_estimate: report.gasEstimate});
+  if (!report.events) {
+    logger.info('Dry run events unavailable');
+    return;
+  }
+
+  report.events.forEach(({event, symbol, price, reporterPrice, anchorPrice}) => {
+    if (event === 'PriceUpdated') {
+      logger.info('Dry run event', {event, symbol, price});
+    } else if (event === 'PriceGuarded') {
+      logger.info('Dry run event', {event, symbol, reporter_price: reporterPrice, anchor_price: anchorPrice});
+    } else {
+      logger.info('Dry run event', {event, symbol});
+    }
+  });
+}
@@ -0,0 +1,118 @@
+import Web3 from 'web3';
+import { logger } from './logger';
+
+export interface RawLog {
+  address?: string
+  topics: string[]
+  data: string
+}
+
+export interface PriceEvent {
+  event: 'PriceUpdated' | 'PriceGuarded' | 'FailoverActivated' | 'FailoverDeactivated'
+  symbol: string
+  // Prices are scaled by 1e6, as posted
+  price?: number
+  reporterPrice?: number
+  anchorPrice?: number
+}
+
+interface EventDefinition {
+  event: PriceEvent['event']
+  signature: string
+  // Whether the symbol is an indexed `bytes32` hash, as in the anchored view,
+  // rather than a plain `string` field, as in the original open oracle view
+  hashedSymbol: boolean
+  prices: (keyof PriceEvent)[]
+}
+
+const EVENTS: EventDefinition[] = [
+  {event: 'PriceUpdated', signature: 'PriceUpdated(bytes32,uint256)', hashedSymbol: true, prices: ['price']},
+  {event: 'PriceGuarded', signature: 'PriceGuarded(bytes32,uint256,uint256)', hashedSymbol: true, prices: ['reporterPrice', 'anchorPrice']},
+  {event: 'PriceUpdated', signature: 'PriceUpdated(string,uint256)', hashedSymbol: false, prices: ['price']},
+  {event: 'PriceGuarded', signature: 'PriceGuarded(string,uint256,uint256)', hashedSymbol: false, prices: ['reporterPrice', 'anchorPrice']},
+  {event: 'FailoverActivated', signature: 'FailoverActivated(bytes32)', hashedSymbol: true, prices: []},
+  {event: 'FailoverDeactivated', signature: 'FailoverDeactivated(bytes32)', hashedSymbol: true, prices: []}
+];
+
+// What a run's transactions did to the price of a symbol
+export interface SymbolEvents {
+  // Price the view was updated to
+  price?: number
+  // Reporter price the view rejected for being too far from its anchor
+  guarded?: {reporterPrice: number, anchorPrice: number}
+  failover?: 'activated' | 'deactivated'
+}
+
+// Whether a run with guarded prices fails, or only warns about them
+export type GuardedPolicy = 'warn' | 'fail';
+
+export const GUARDED_POLICIES: GuardedPolicy[] = ['warn', 'fail'];
+
+// Decodes the price events among `logs`, ignoring any others. Hashed symbols
+// are mapped back to the first of `symbols` with the same hash, or left as the
+// hash if none match.
+export function decodePriceEvents(logs: RawLog[], symbols: string[], web3: Web3): PriceEvent[] {
+  const symbolsByHash: {[hash: string]: string} = {};
+  symbols.forEach(symbol => {
+    symbolsByHash[web3.utils.keccak256(symbol)] = symbol;
+  });
+
+  return logs.reduce<PriceEvent[]>((events, log) => {
+    const definition = EVENTS.find(({signature}) => web3.eth.abi.encodeEventSignature(signature) === log.topics[0]);
+    if (!definition) {
+      return events;
+    }
+
+    const priceTypes = definition.prices.map(() => 'uint256');
+    const decoded = web3.eth.abi.decodeParameters(definition.hashedSymbol ? priceTypes : ['string', ...priceTypes], log.data);
+    const offset = definition.hashedSymbol ? 0 : 1;
+    const event = <PriceEvent>{
+      event: definition.event,
+      symbol: definition.hashedSymbol ? symbolsByHash[log.topics[1]] || log.topics[1] : decoded[0]
+    };
+    definition.prices.forEach((field, i) => {
+      event[<string>field] = Number(decoded[i + offset]) / 1e6;
+    });
+
+    return [...events, event];
+  }, []);
+}
+
+// Folds events into what happened to each symbol, later events taking over
+// from earlier ones
+export function summarizeEvents(events: PriceEvent[]): {[symbol: string]: SymbolEvents} {
+  return events.reduce((summary, {event, symbol, price, reporterPrice, anchorPrice}) => {
+    const current = summary[symbol] || {};
+    switch (event) {
+      case 'PriceUpdated':
+        return {...summary, [symbol]: {...current, price}};
+      case 'PriceGuarded':
+        return {...summary, [symbol]: {...current, guarded: {reporterPrice: <number>reporterPrice, anchorPrice: <number>anchorPrice}}};
+      case 'FailoverActivated':
+        return {...summary, [symbol]: {...current, failover: 'activated'}};
+      case 'FailoverDeactivated':
+        return {...summary, [symbol]: {...current, failover: 'deactivated'}};
+    }
+  }, {});
+}
+
+// Reporter prices the view rejected, by symbol, as they go in the health log
+export function guardedPrices(summary: {[symbol: string]: SymbolEvents}): {[symbol: string]: {reporter_price: number, anchor_price: number}} {
+  return Object.entries(summary).reduce((guarded, [symbol, {guarded: prices}]) => {
+    return prices ? {...guarded, [symbol]: {reporter_price: prices.reporterPrice, anchor_price: prices.anchorPrice}} : guarded;
+  }, {});
+}
+
+// Warns about prices guarded by the anchor, or fails the run with them
+export function checkGuarded(summary: {[symbol: string]: SymbolEvents}, policy: GuardedPolicy = 'warn') {
+  const guarded = guardedPrices(summary);
+  if (Object.keys(guarded).length === 0) {
+    return;
+  }
+
+  logger.warn('Prices guarded by the anchor', {guarded});
+  if (policy === 'fail') {
+    const prices = Object.entries(guarded).map(([symbol, {reporter_price, anchor_price}]) => `${symbol} (reported ${reporter_price}, anchor ${anchor_price})`);
+    throw new Error(`Prices guarded by the anchor: ${prices.join(', ')}`);
+  }
+}
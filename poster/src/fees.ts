@@ -0,0 +1,247 @@
+import { BigNumber as BN } from 'bignumber.js';
+import fetch from 'node-fetch';
+import Web3 from 'web3';
+import { TransactionConfig } from 'web3-core';
+import { logger } from './logger';
+
+const GAS_PRICE_API = 'https://api.compound.finance/api/gas_prices/get_gas_price';
+const DEFAULT_GAS_PRICE = 3_000_000_000; // use 3 gwei if api is unreachable for some reason
+
+const FEE_HISTORY_BLOCKS = 10;
+const FEE_HISTORY_PERCENTILE = 50;
+const BASE_FEE_MULTIPLIER = 2; // Leaves room for the base fee to double before the transaction stops being includable
+const MIN_REPLACEMENT_BUMP = 1.1; // Nodes reject replacement transactions that raise fees by less than 10%
+
+export type FeeModel = 'legacy' | 'eip1559';
+
+export interface LegacyFees {
+  gasPrice: number
+}
+
+export interface Eip1559Fees {
+  maxFeePerGas: number
+  maxPriorityFeePerGas: number
+}
+
+export type Fees = LegacyFees | Eip1559Fees;
+
+export type GasStrategyType = 'node' | 'fee-history' | 'fixed' | 'api';
+
+// How the price of gas is picked:
+//   node         the node's `eth_gasPrice`
+//   fee-history  the next base fee plus a percentile of recent priority fees
+//   fixed        always `value`
+//   api          a gas price API serving `{"average": {"value": ...}}`
+// For EIP-1559 transactions the price is used as the max fee per gas, except
+// with `fee-history` which leaves room for the base fee to double.
+export interface GasStrategy {
+  type: GasStrategyType
+  // Gas price in wei, for `fixed`
+  value?: number
+  // Percentile of priority fees and number of blocks to take them from, for `fee-history`
+  percentile?: number
+  blocks?: number
+  // Gas price endpoint, for `api`
+  url?: string
+  // Bounds on the gas price, or on the max fee per gas with EIP-1559
+  min?: number
+  max?: number
+  // Raises fees by `multiplier` when an asset has moved at least `threshold`
+  // times its price delta, so that large moves are posted quickly
+  urgency?: {threshold: number, multiplier: number}
+}
+
+export interface FeeOptions {
+  strategy?: GasStrategy
+  // How many times its price delta the furthest moved asset being posted has moved
+  deviation?: number
+}
+
+const GAS_STRATEGY_TYPES: GasStrategyType[] = ['node', 'fee-history', 'fixed', 'api'];
+
+// Fetches the fees for a new transaction. Without a strategy, legacy
+// transactions use `gasPrice` when set and the gas price API otherwise, and
+// EIP-1559 transactions use the fee history with `maxFeePerGas` capped by `gasPrice`.
+export async function fetchFees(web3: Web3, feeModel: FeeModel, gasPrice?: number, options: FeeOptions = {}): Promise<Fees> {
+  const strategy = options.strategy || defaultStrategy(feeModel, gasPrice);
+  let fees = feeModel === 'legacy' ?
+    { gasPrice: await fetchStrategyGasPrice(strategy, web3) } :
+    await fetchStrategyEip1559Fees(strategy, web3);
+
+  const urgency = strategy.urgency;
+  if (urgency && options.deviation !== undefined && options.deviation >= urgency.threshold) {
+    logger.info('Raising fees for an urgent update', {deviation: options.deviation, multiplier: urgency.multiplier});
+    fees = scaleFees(fees, urgency.multiplier);
+  }
+
+  return capFees(fees, strategy.min, strategy.max);
+}
+
+// Parses a gas strategy given by name, e.g. `node`, or as a JSON-encoded
+// strategy, e.g. `{"type": "fee-history", "percentile": 75}`
+export function parseGasStrategy(raw: string | object): GasStrategy {
+  const strategy = typeof raw === 'string' ? (raw.includes('{') ? JSON.parse(raw) : {type: raw}) : raw;
+
+  if (!GAS_STRATEGY_TYPES.includes(strategy.type)) {
+    throw new TypeError(`Gas strategy type should be one of: ${GAS_STRATEGY_TYPES.join(', ')}, got ${strategy.type}`);
+  }
+  if (strategy.type === 'fixed' && !(strategy.value > 0)) {
+    throw new TypeError(`Gas strategy \`fixed\` requires a positive \`value\``);
+  }
+  if (strategy.percentile !== undefined && !(strategy.percentile >= 0 && strategy.percentile <= 100)) {
+    throw new TypeError(`Gas strategy percentile should be between 0 and 100, got ${strategy.percentile}`);
+  }
+  if (strategy.blocks !== undefined && !(Number.isInteger(strategy.blocks) && strategy.blocks > 0)) {
+    throw new TypeError(`Gas strategy blocks should be a positive whole number, got ${strategy.blocks}`);
+  }
+  ['min', 'max'].forEach(bound => {
+    if (strategy[bound] !== undefined && !(strategy[bound] > 0)) {
+      throw new TypeError(`Gas strategy ${bound} should be a positive gas price, got ${strategy[bound]}`);
+    }
+  });
+  if (strategy.min !== undefined && strategy.max !== undefined && strategy.min > strategy.max) {
+    throw new TypeError(`Gas strategy min should not be above its max, got ${strategy.min} and ${strategy.max}`);
+  }
+  if (strategy.urgency !== undefined && !(strategy.urgency.threshold > 0 && strategy.urgency.multiplier >= 1)) {
+    throw new TypeError(`Gas strategy urgency needs a positive threshold and a multiplier of at least 1`);
+  }
+
+  return strategy;
+}
+
+// The most a transaction may pay per gas, which holds for retries too: the
+// strategy's `max`, or `gasPrice` for EIP-1559 transactions without a strategy
+export function feeCap(feeModel: FeeModel, gasPrice?: number, strategy?: GasStrategy): number | undefined {
+  return (strategy || defaultStrategy(feeModel, gasPrice)).max;
+}
+
+function defaultStrategy(feeModel: FeeModel, gasPrice?: number): GasStrategy {
+  if (feeModel === 'legacy') {
+    return gasPrice ? {type: 'fixed', value: gasPrice} : {type: 'api'};
+  }
+
+  return {type: 'fee-history', max: gasPrice || undefined};
+}
+
+async function fetchStrategyGasPrice(strategy: GasStrategy, web3: Web3): Promise<number> {
+  switch (strategy.type) {
+    case 'node':
+      return Number(await web3.eth.getGasPrice());
+    case 'fee-history':
+      const { nextBaseFee, priorityFee } = await fetchFeeHistory(web3, strategy.blocks, strategy.percentile);
+      return nextBaseFee + priorityFee;
+    case 'fixed':
+      return Number(strategy.value);
+    case 'api':
+      return await fetchGasPrice(fetch, strategy.url);
+  }
+}
+
+async function fetchStrategyEip1559Fees(strategy: GasStrategy, web3: Web3): Promise<Eip1559Fees> {
+  if (strategy.type === 'fee-history') {
+    return await fetchEip1559Fees(web3, strategy.blocks, strategy.percentile);
+  }
+
+  const [maxFeePerGas, { priorityFee }] = await Promise.all([
+    fetchStrategyGasPrice(strategy, web3),
+    fetchFeeHistory(web3)
+  ]);
+
+  return {
+    maxFeePerGas,
+    maxPriorityFeePerGas: Math.min(priorityFee, maxFeePerGas)
+  };
+}
+
+function scaleFees(fees: Fees, multiplier: number): Fees {
+  const scale = (fee: number) => new BN(fee).multipliedBy(multiplier).integerValue(BN.ROUND_CEIL).toNumber();
+
+  if ('gasPrice' in fees) {
+    return { gasPrice: scale(fees.gasPrice) };
+  }
+
+  return {
+    maxFeePerGas: scale(fees.maxFeePerGas),
+    maxPriorityFeePerGas: scale(fees.maxPriorityFeePerGas)
+  };
+}
+
+function capFees(fees: Fees, min?: number, max?: number): Fees {
+  const cap = (fee: number) => Math.min(Math.max(fee, min || 0), max || Infinity);
+
+  if ('gasPrice' in fees) {
+    return { gasPrice: cap(fees.gasPrice) };
+  }
+
+  const maxFeePerGas = cap(fees.maxFeePerGas);
+
+  return {
+    maxFeePerGas,
+    maxPriorityFeePerGas: Math.min(fees.maxPriorityFeePerGas, maxFeePerGas)
+  };
+}
+
+export async function fetchGasPrice(fetchFn = fetch, url: string = GAS_PRICE_API): Promise<number> {
+  try {
+    let response = await fetchFn(url);
+    let prices = await response.json();
+    return Number(prices["average"]["value"]);
+  } catch (e) {
+    logger.warn('Failed to fetch gas price', {error: e});
+    return DEFAULT_GAS_PRICE;
+  }
+}
+
+// Uses the median priority fee paid over the last few blocks, and the base fee
+// of the pending block which `eth_feeHistory` returns as the last base fee.
+export async function fetchEip1559Fees(web3: Web3, blocks: number = FEE_HISTORY_BLOCKS, percentile: number = FEE_HISTORY_PERCENTILE): Promise<Eip1559Fees> {
+  const { nextBaseFee, priorityFee } = await fetchFeeHistory(web3, blocks, percentile);
+
+  return {
+    maxFeePerGas: Math.ceil(nextBaseFee * BASE_FEE_MULTIPLIER) + priorityFee,
+    maxPriorityFeePerGas: priorityFee
+  };
+}
+
+async function fetchFeeHistory(web3: Web3, blocks: number = FEE_HISTORY_BLOCKS, percentile: number = FEE_HISTORY_PERCENTILE): Promise<{nextBaseFee: number, priorityFee: number}> {
+  const history = await web3.eth.getFeeHistory(blocks, 'latest', [percentile]);
+  const nextBaseFee = Number(history.baseFeePerGas[history.baseFeePerGas.length - 1]);
+  const rewards = (history.reward || []).map(([reward]) => Number(reward));
+
+  return { nextBaseFee, priorityFee: median(rewards) };
+}
+
+// Raises the fees of a transaction so that it can replace a pending transaction
+// with the same nonce. For EIP-1559 both the max fee and the priority fee need
+// to be raised for the replacement to be accepted. Fees are held to `max`, so
+// once there a replacement may be rejected as underpriced.
+export function bumpFees(transaction: TransactionConfig, adjustment: number, max?: number): TransactionConfig {
+  const factor = Math.max(adjustment, MIN_REPLACEMENT_BUMP);
+  const bump = (fee) => Math.min(new BN(Number(fee)).multipliedBy(factor).integerValue(BN.ROUND_CEIL).toNumber(), max || Infinity);
+
+  if (transaction.maxFeePerGas !== undefined) {
+    const maxFeePerGas = bump(transaction.maxFeePerGas);
+
+    return {
+      ...transaction,
+      maxFeePerGas,
+      maxPriorityFeePerGas: Math.min(bump(transaction.maxPriorityFeePerGas), maxFeePerGas)
+    };
+  }
+
+  return {
+    ...transaction,
+    gasPrice: bump(transaction.gasPrice)
+  };
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 === 0 ? Math.floor((sorted[mid - 1] + sorted[mid]) / 2) : sorted[mid];
+}
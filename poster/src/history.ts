@@ -0,0 +1,136 @@
+import fs from 'fs';
+import { SymbolEvents } from './events';
+import { logger } from './logger';
+import { Decision, PosterError, PosterResult } from './poster';
+
+// A run as recorded in the state file, one JSON line per run
+export interface RunRecord {
+  run_id: string
+  chain: string
+  started_at: string
+  finished_at: string
+  outcome: 'success' | 'failure'
+  dry_run: boolean
+  error?: string
+  payloads?: OpenPriceFeedPayload[]
+  decisions?: Decision[]
+  transactions?: TransactionRecord[]
+  events?: {[symbol: string]: SymbolEvents}
+}
+
+export interface TransactionRecord {
+  symbols: string[]
+  hash: string
+  gas_used: number
+  status: boolean
+}
+
+export interface HistoryQuery {
+  chain?: string
+  // Runs that decided on any of these assets, and failed runs, with
+  // everything about other assets left out
+  assets?: string[]
+  // Runs started within this range, inclusive
+  since?: Date
+  until?: Date
+}
+
+// Records a run from its result, or from its error. Runs that failed after
+// posting keep what they posted, see `withResult`.
+export function runRecord(
+    run: {runId: string, chain: string, startedAt: Date, dryRun: boolean},
+    outcome: PosterResult | PosterError,
+    finishedAt: Date = new Date()): RunRecord {
+
+  const record: RunRecord = {
+    run_id: run.runId,
+    chain: run.chain,
+    started_at: run.startedAt.toISOString(),
+    finished_at: finishedAt.toISOString(),
+    outcome: outcome instanceof Error ? 'failure' : 'success',
+    dry_run: run.dryRun
+  };
+
+  if (outcome instanceof Error) {
+    return outcome.result ? {...record, error: outcome.message, ...resultRecord(outcome.result)} : {...record, error: outcome.message};
+  }
+
+  return {...record, ...resultRecord(outcome)};
+}
+
+function resultRecord(result: PosterResult) {
+  return {
+    payloads: result.payloads,
+    decisions: result.decisions,
+    transactions: (result.transactions || []).map(({symbols, receipt}) => ({
+      symbols,
+      hash: receipt.transactionHash,
+      gas_used: receipt.gasUsed,
+      status: receipt.status
+    })),
+    events: result.events
+  };
+}
+
+// Appends a run to the state file. A run that can't be recorded is logged
+// rather than failed, as its prices have been posted either way.
+export function appendRun(file: string, record: RunRecord) {
+  try {
+    fs.appendFileSync(file, JSON.stringify(record) + '\n');
+  } catch (e) {
+    logger.error('Could not record run', {state_file: file, run_id: record.run_id, error: e});
+  }
+}
+
+// Reads the runs matching `query` from the state file, oldest first
+export function readRuns(file: string, query: HistoryQuery = {}): RunRecord[] {
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+
+  const runs = fs.readFileSync(file, 'utf8').split('\n').filter(line => line.trim() !== '').map((line, i) => {
+    try {
+      return <RunRecord>JSON.parse(line);
+    } catch (e) {
+      throw new Error(`Line ${i + 1} of ${file} is not a recorded run: ${e.message}`);
+    }
+  });
+
+  return runs.filter(run => {
+    const startedAt = new Date(run.started_at);
+
+    return (query.chain === undefined || run.chain === query.chain) &&
+      (query.since === undefined || startedAt >= query.since) &&
+      (query.until === undefined || startedAt <= query.until);
+  }).map(run => query.assets ? forAssets(run, query.assets) : run).filter((run): run is RunRecord => run !== undefined);
+}
+
+// Parses the bounds of a time range, either as an ISO 8601 date or as unix
+// seconds
+export function parseTime(value: string): Date {
+  const time = /^\d+$/.test(value) ? new Date(Number(value) * 1000) : new Date(value);
+  if (isNaN(time.getTime())) {
+    throw new TypeError(`Time should be an ISO 8601 date or unix seconds, got ${value}`);
+  }
+
+  return time;
+}
+
+// Failed runs are kept whatever they decided, as they may have failed before
+// deciding on the assets
+function forAssets(run: RunRecord, assets: string[]): RunRecord | undefined {
+  const symbols = assets.map(asset => asset.toUpperCase());
+  const decisions = (run.decisions || []).filter(({symbol}) => symbols.includes(symbol));
+  if (decisions.length === 0 && run.outcome !== 'failure') {
+    return undefined;
+  }
+
+  const events = Object.entries(run.events || {}).filter(([symbol]) => symbols.includes(symbol));
+
+  return {
+    ...run,
+    decisions,
+    transactions: (run.transactions || []).filter(transaction => transaction.symbols.some(symbol => symbols.includes(symbol))),
+    events: Object.fromEntries(events)
+  };
+}
@@ -1,5 +1,19 @@
 #! /usr/bin/env node
-import { main } from './poster';
+import { main, PosterResult } from './poster';
+import { ChainConfig, DEFAULT_ASSETS, DEFAULT_BATCH_READS, DEFAULT_GAS_LIMIT, DEFAULT_VIEW_FUNCTION, loadConfig, validateChain, VIEW_TYPES } from './config';
+import { startDaemon } from './daemon';
+import { guardedPrices, GUARDED_POLICIES } from './events';
+import { appendRun, parseTime, readRuns, runRecord } from './history';
+import { feeCap, fetchFees, parseGasStrategy } from './fees';
+import { addSecretsFrom, logger, setLogLevel, startRun } from './logger';
+import { DEFAULT_MAINNET_WEB3_PROVIDER, MainnetState, mainnetState } from './mainnet_uniswap_mocker';
+import { recordFailedRun, recordRun, setRunChain, startMetricsServer } from './metrics';
+import { checkChainId, getNetwork, NETWORKS } from './networks';
+import { parsePriceDeltas } from './policy';
+import { cancelTransaction } from './post_with_retries';
+import { loadSigner, Signer } from './signer';
+import { parseSource } from './sources';
+import { pokeFailedOverPrices } from './uav';
 import Web3 from 'web3';
 import yargs from 'yargs';
 
@@ -7,104 +21,360 @@ async function run() {
   const parsed = yargs
     .env('POSTER')
     .option('sources', {alias: 's', description: 'Sources to pull price messages from, a list of https endpoints created by open oracle reporters serving open oracle payloads as json', type: 'string'})
-    .option('poster-key', {alias: 'k', description: 'Private key holding enough gas to post (try: `file:<file> or env:<env>)`', type: 'string'})
+    .option('poster-key', {alias: 'k', description: 'Private key holding enough gas to post (try: `file:<file>`, `env:<env>`, `keystore:<file>` or `remote:<url>`)', type: 'string'})
+    .option('keystore-passphrase', {description: 'Passphrase of an encrypted keystore poster key (try: `file:<file>` or `env:<env>`)', type: 'string'})
+    .option('signer-address', {description: 'Account to post from with a `remote:<url>` poster key, defaults to the only account of the remote signer', type: 'string'})
     .option('view-address', {alias: 'v', description: 'Address of open oracle view to post through', type: 'string'})
-    .option('view-function', {alias: 'f', description: 'Function signature for the view', type: 'string', default: 'postPrices(bytes[],bytes[],string[])'})
+    .option('view-type', {description: 'Kind of view: `open-oracle` posts messages from sources, `uav` pokes the prices of failed over assets in a Chainlink-validated UniswapAnchoredView', type: 'string', choices: VIEW_TYPES, default: 'open-oracle'})
+    .option('view-function', {alias: 'f', description: 'Function signature for the view', type: 'string', default: DEFAULT_VIEW_FUNCTION})
     .option('web3-provider', {description: 'Web 3 provider', type: 'string', default: 'http://127.0.0.1:8545'})
-    .option('timeout', {alias: 't', description: 'how many seconds to wait before retrying with more gas', type: 'number', default: 180})
-    .option('gas-limit', {alias: 'g', description: 'how much gas to send', type: 'number', default: 4000000})
-    .option('gas-price', {alias: 'gp', description: 'gas price', type: 'number'})
-    .option('asset', {alias: 'a', description: 'A list of supported token names for posting prices', type: 'array', default: ['BTC', 'ETH', 'DAI', 'REP', 'ZRX', 'BAT', 'KNC', 'LINK', 'COMP']})
-    .option('price-deltas', {alias: 'd', description: 'the min required difference between new and previous asset price for the update on blockchain', type: 'string'})
-    .option('testnet-world', {alias: 'tw', description: 'An option to use mocked uniswap token pairs with data from mainnet', type: 'boolean', default: false})
-    .option('testnet-uniswap-pairs', {alias: 'tup', description: 'A list of uniswap testnet pairs for all assets', type: 'string'})
-    .option('mainnet-uniswap-pairs', {alias: 'mup', description: 'A list of uniswap mainnet pairs for all assets', type: 'string'})
+    .option('network', {alias: 'n', description: `Named network profile setting the chain id, confirmations, timeout and fee model, one of: ${Object.keys(NETWORKS).join(', ')}`, type: 'string'})
+    .option('chain-id', {description: 'Chain id the web3 provider has to be connected to, defaults to that of the network', type: 'number'})
+    .option('confirmations', {description: 'how many blocks to wait for after a transaction is mined, defaults to that of the network', type: 'number'})
+    .option('timeout', {alias: 't', description: 'how many seconds to wait before retrying with more gas, defaults to that of the network', type: 'number'})
+    .option('gas-limit', {alias: 'g', description: 'how much gas to send', type: 'number', default: DEFAULT_GAS_LIMIT})
+    .option('max-gas-per-tx', {description: 'the max gas a single transaction may use, assets are split across several transactions beyond it. Defaults to the gas limit', type: 'number'})
+    .option('gas-price', {alias: 'gp', description: 'gas price for legacy transactions, or the cap on the max fee per gas for EIP-1559 transactions', type: 'number'})
+    .option('gas-strategy', {description: 'How to pick fees, one of node, fee-history, fixed or api, or a JSON strategy with caps and an urgency multiplier, e.g. `{"type": "node", "max": 100000000000, "urgency": {"threshold": 3, "multiplier": 1.5}}`', type: 'string'})
+    .option('legacy-transactions', {alias: 'legacy', description: 'Send legacy transactions with a gas price instead of EIP-1559 fees, for chains without EIP-1559. Defaults to the fee model of the network', type: 'boolean'})
+    .option('asset', {alias: 'a', description: `A list of supported token names for posting prices, defaults to ${DEFAULT_ASSETS.join(', ')}`, type: 'array'})
+    .option('price-deltas', {alias: 'd', description: 'the min required difference between new and previous asset price for the update on blockchain, or a policy per asset', type: 'string'})
+    .option('heartbeats', {alias: 'hb', description: 'the max number of seconds an asset price may go without an update on blockchain, even when within its price delta', type: 'string'})
+    .option('quorum', {alias: 'q', description: 'the min number of sources that need to agree on an asset price before it is posted, prices from sources that disagree are never posted', type: 'number'})
+    .option('quorum-tolerance', {description: 'the max percent a source price may differ from the median price of all sources and still agree with it', type: 'number', default: 1})
+    .option('min-healthy-sources', {description: 'the min number of sources that need to be read successfully to post, prices from the sources that were read are posted even if others failed. Defaults to all sources', type: 'number'})
+    .option('reporters', {alias: 'r', description: 'A list of reporter addresses allowed to sign posted messages, messages from other signers are dropped before posting', type: 'array', string: true})
+    .option('batch-reads', {description: 'How to read on-chain prices: `none` one call at a time, `rpc` in JSON-RPC batch requests, `multicall` through a Multicall3 contract. Batches fall back to single calls when they fail', type: 'string', default: DEFAULT_BATCH_READS})
+    .option('on-guarded', {description: 'Whether a run fails or only warns when the view rejects a posted price for being too far from its anchor', type: 'string', choices: GUARDED_POLICIES, default: 'warn'})
+    .option('multicall-address', {description: 'Address of the Multicall3 contract for `--batch-reads multicall`, defaults to its usual address', type: 'string'})
+    .option('max-message-age', {description: 'the max number of seconds old a message timestamp may be for each asset, older messages are dropped', type: 'string'})
+    .option('max-clock-skew', {description: 'the max number of seconds a message timestamp may be in the future for each asset, later messages are dropped', type: 'string'})
+    .option('testnet-world', {alias: 'tw', description: 'An option to use mocked uniswap token pairs with data from mainnet, or mocked V3 pools with `--view-type uav`', type: 'boolean', default: false})
+    .option('testnet-uniswap-pairs', {alias: 'tup', description: 'A list of uniswap testnet pairs for all assets, or of `MockUniswapV3Pool`s with `--view-type uav`', type: 'string'})
+    .option('mainnet-uniswap-pairs', {alias: 'mup', description: 'A list of uniswap mainnet pairs for all assets, or of V3 pools with `--view-type uav`', type: 'string'})
+    .option('mainnet-web3-provider', {description: 'Web3 provider the testnet world reads mainnet pairs from, defaults to ' + DEFAULT_MAINNET_WEB3_PROVIDER, type: 'string'})
+    .option('mainnet-snapshot', {description: 'JSON snapshot the testnet world reads mainnet pairs from instead of a mainnet node', type: 'string'})
+    .option('cancel-nonce', {description: 'Cancel a stuck transaction with this nonce by replacing it with a 0-value transfer to the poster, then exit', type: 'number'})
+    .option('daemon', {description: 'Keep running and post on an interval instead of exiting after a single run', type: 'boolean', default: false})
+    .option('interval', {alias: 'i', description: 'how many seconds to wait between runs in daemon mode', type: 'number', default: 60})
+    .option('metrics-port', {description: 'Serve Prometheus metrics on this port at `/metrics`, in daemon mode', type: 'number'})
+    .option('log-level', {description: 'Only log lines at or above this level, one of debug, info, warn or error', type: 'string', default: 'info'})
+    .option('dry-run', {description: 'Simulate posting against the view and print what would be posted, without signing or sending a transaction', type: 'boolean', default: false})
+    .option('config', {alias: 'c', description: 'YAML or JSON file describing one or more chains to post to, in place of the per-chain options', type: 'string'})
+    .option('chain', {description: 'Only post to the chain with this name from the config file', type: 'string'})
+    .option('state-file', {description: 'JSONL file every run is recorded in, with its payloads, decisions and transactions', type: 'string'})
+    .command('history', 'Print the runs recorded in --state-file, for the assets given with --asset', yargs => yargs
+      .option('since', {description: 'Only runs started at or after this time, an ISO 8601 date or unix seconds', type: 'string'})
+      .option('until', {description: 'Only runs started at or before this time, an ISO 8601 date or unix seconds', type: 'string'}))
 
     .help()
     .alias('help', 'h')
-    .demandOption(['poster-key', 'sources', 'view-function', 'web3-provider', 'view-address', 'price-deltas'], 'Provide all the arguments')
     .argv;
 
-  const sources = Array.isArray(parsed['sources']) ? parsed['sources'] : [ parsed['sources'] ];
-  const poster_key = parsed['poster-key'];
-  const view_address = parsed['view-address'];
-  const view_function = parsed['view-function'];
-  const web3_provider = parsed['web3-provider'];
-  const timeout = parsed['timeout'];
-  const gas_limit = parsed['gas-limit'];
-  const gas_price = parsed['gas-price'];
-  const price_deltas = JSON.parse(parsed['price-deltas']);
-  const assets = <string[]>parsed['asset'];
-
-  // check that price deltas are set up for all assets
-  assets.forEach(asset => {
-    if (price_deltas[asset] == undefined) {
-      throw new TypeError(`For each asset price delta should be provided, ${asset} asset is not properly configured`)
+  setLogLevel(parsed['log-level']);
+
+  if (parsed._[0] === 'history') {
+    if (parsed['state-file'] === undefined) {
+      throw new TypeError('Missing required argument: state-file')
+    }
+
+    readRuns(parsed['state-file'], {
+      chain: parsed['chain'],
+      assets: <string[] | undefined>parsed['asset'],
+      since: parsed['since'] === undefined ? undefined : parseTime(<string>parsed['since']),
+      until: parsed['until'] === undefined ? undefined : parseTime(<string>parsed['until'])
+    }).forEach(run => process.stdout.write(JSON.stringify(run) + '\n'));
+    process.exit(0);
+  }
+
+  const configured = parsed['config'] ? loadConfig(parsed['config']) : [chainFromArgs(parsed)];
+  const chains = parsed['chain'] ? configured.filter(({name}) => name === parsed['chain']) : configured;
+  if (chains.length === 0) {
+    throw new TypeError(`Unknown chain \`${parsed['chain']}\`, expected one of: ${configured.map(({name}) => name).join(', ')}`)
+  }
+
+  const posters = await Promise.all(chains.map(setupChain));
+
+  const cancel_nonce = parsed['cancel-nonce'];
+  if (cancel_nonce !== undefined) {
+    if (posters.length !== 1) {
+      throw new TypeError(`Cancelling a nonce needs a single chain, pick one with --chain`)
+    }
+    const { chain, web3, signer } = posters[0];
+    const fees = await fetchFees(web3, chain.feeModel, chain.gasPrice, {strategy: chain.gasStrategy});
+    await cancelTransaction(cancel_nonce, fees, signer, web3, undefined, feeCap(chain.feeModel, chain.gasPrice, chain.gasStrategy));
+    process.exit(0);
+  }
+
+  const metrics_port = parsed['metrics-port'];
+  if (metrics_port !== undefined) {
+    if (!Number.isInteger(metrics_port) || metrics_port < 1 || metrics_port > 65535) {
+      throw new TypeError(`Metrics port should be a port number, got ${metrics_port}`)
+    }
+    // a single run exits before anything could scrape it
+    if (!parsed['daemon']) {
+      throw new TypeError('Metrics are only served in daemon mode, pass --daemon with --metrics-port')
+    }
+    await startMetricsServer(metrics_port);
+  }
+
+  // Chains are posted to one after another, and a failure on one chain is
+  // reported without stopping the others
+  const postAll = async (): Promise<number> => {
+    let failures = 0;
+    for (const poster of posters) {
+      const log = logger.child({chain: poster.chain.name});
+      // every run gets its own `run_id` in the logs and the state file
+      const run = {runId: startRun({chain: poster.chain.name}), chain: poster.chain.name, startedAt: new Date(), dryRun: parsed['dry-run']};
+      setRunChain(poster.chain.name);
+      const stateFile = parsed['state-file'];
+      try {
+        const result = await post(poster, parsed['dry-run']);
+        // dry runs don't post, so they are kept out of the run metrics
+        if (!run.dryRun) {
+          recordRun(result, poster.chain.name);
+        }
+        await writeHealth(successLog(result, poster.chain.name));
+        if (stateFile !== undefined) {
+          appendRun(stateFile, runRecord(run, result));
+        }
+      } catch (e) {
+        failures++;
+        if (!run.dryRun) {
+          recordFailedRun(poster.chain.name, e.result);
+        }
+        log.error('Error encountered', {error: e});
+        await writeHealth(errorLog(e, poster.chain.name));
+        if (stateFile !== undefined) {
+          appendRun(stateFile, runRecord(run, e instanceof Error ? e : new Error(String(e))));
+        }
+      }
     }
+
+    return failures;
+  };
+
+  if (!parsed['daemon']) {
+    const failures = await postAll();
+    process.exit(failures > 0 ? 1 : 0);
+  }
+
+  // In daemon mode the same web3 connections are reused for every run and a
+  // failed run is reported without stopping the poster
+  const daemon = startDaemon(async () => {
+    await postAll();
+  }, parsed['interval'], async (e) => {
+    logger.error('Error encountered', {error: e});
+    await writeHealth(errorLog(e));
   });
 
-  console.log(`Posting with price deltas = `, price_deltas);
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      logger.warn('Received signal again, exiting without waiting for in-flight run', {signal});
+      process.exit(1);
+    }
+    shuttingDown = true;
 
-  // parameters only for testnets that mock uniswap mainnet
-  const mocked_world = parsed['testnet-world'];
-  const testnet_pairs = JSON.parse(parsed['testnet-uniswap-pairs'] || '{}');
-  const mainnet_pairs = JSON.parse(parsed['mainnet-uniswap-pairs'] || '{}');
-  console.log(`Configuring using testnet and mainnet uniswap pairs:`, testnet_pairs, mainnet_pairs);
-  const pairs = {testnet: {}, mainnet: {}};
-  if (mocked_world) {
-    assets.forEach(asset => {
-      if (!testnet_pairs[asset] || !mainnet_pairs[asset]) {
-        throw new TypeError(`For each asset mainnet and testnet pairs should be provided, ${asset} asset is not properly configured`)
+    logger.info('Received signal, waiting for in-flight run to finish before shutting down', {signal});
+    await daemon.stop();
+
+    posters.forEach(({web3}) => {
+      const provider = <any>web3.currentProvider;
+      if (provider && typeof provider.disconnect === 'function') {
+        provider.disconnect();
       }
-      pairs['testnet'][asset] = testnet_pairs[asset];
-      pairs['mainnet'][asset] = mainnet_pairs[asset];
     });
-  }
+
+    logger.info('Shutdown complete');
+    process.exit(0);
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+
+  await daemon.done;
+}
+
+interface ChainPoster {
+  chain: ChainConfig
+  web3: Web3
+  signer: Signer
+  // only set for testnets that mock uniswap mainnet
+  mainnet?: MainnetState
+}
+
+async function setupChain(chain: ChainConfig): Promise<ChainPoster> {
+  const log = logger.child({chain: chain.name});
+  // keep source credentials out of the logs
+  chain.sources.map(parseSource).forEach(addSecretsFrom);
+  const signer = await loadSigner(chain.posterKey, {passphrase: chain.keystorePassphrase, address: chain.signerAddress});
 
   // posting promise will reject and retry once with higher gas after this timeout
-  const web3 = await new Web3(web3_provider);
-  web3.eth.transactionPollingTimeout = timeout;
-
-  // TODO: We should probably just have a `network` var here, or
-  //       pass this in as an option.
-  if (web3_provider.match(/.*:8545$/)) {
-    // confirm immediately in dev
-    web3.eth.transactionConfirmationBlocks = 1
-  } else {
-    web3.eth.transactionConfirmationBlocks = 10;
+  const web3 = new Web3(chain.web3Provider);
+  web3.eth.transactionPollingTimeout = chain.timeout;
+  web3.eth.transactionConfirmationBlocks = chain.confirmations;
+
+  const chainId = await checkChainId(chain.chainId, web3);
+  if (chain.chainId === undefined) {
+    log.warn('No chain id configured, posting to whichever chain the provider is connected to', {chain_id: chainId});
   }
 
-  await main(sources, poster_key, view_address, view_function, gas_limit, gas_price, price_deltas, assets, mocked_world, pairs, web3);
+  log.info('Posting to chain', {
+    network: chain.network,
+    chain_id: chainId,
+    confirmations: chain.confirmations,
+    timeout: chain.timeout,
+    fee_model: chain.feeModel,
+    gas_strategy: chain.gasStrategy,
+    address: signer.address,
+    view_address: chain.viewAddress,
+    price_deltas: chain.priceDeltas,
+    heartbeats: chain.heartbeats,
+    max_message_age: chain.maxMessageAges,
+    max_clock_skew: chain.maxClockSkews,
+    quorum: chain.quorum,
+    reporters: chain.reporters
+  });
 
-  let success_log = {
+  const mainnet = chain.mockedWorld ? mainnetState({web3Provider: chain.mainnetWeb3Provider, snapshot: chain.mainnetSnapshot}) : undefined;
+
+  return { chain, web3, signer, mainnet };
+}
+
+function post({chain, web3, signer, mainnet}: ChainPoster, dryRun: boolean): Promise<PosterResult> {
+  if (chain.viewType === 'uav') {
+    return pokeFailedOverPrices(signer, chain.viewAddress, chain.priceDeltas, chain.assets, web3, {
+      feeModel: chain.feeModel,
+      gasPrice: chain.gasPrice,
+      gasStrategy: chain.gasStrategy,
+      dryRun,
+      onGuarded: chain.onGuarded,
+      mainnet,
+      testnetWorld: chain.mockedWorld ? {pairs: chain.pairs, gas: chain.gasLimit} : undefined
+    });
+  }
+
+  return main(chain.sources, signer, chain.viewAddress, chain.viewFunction, chain.gasLimit, chain.gasPrice, chain.priceDeltas, chain.assets, chain.mockedWorld, chain.pairs, web3, {
+    heartbeats: chain.heartbeats,
+    maxMessageAges: chain.maxMessageAges,
+    maxClockSkews: chain.maxClockSkews,
+    feeModel: chain.feeModel,
+    gasStrategy: chain.gasStrategy,
+    maxGasPerTx: chain.maxGasPerTx,
+    reads: {mode: chain.batchReads, multicallAddress: chain.multicallAddress},
+    quorum: chain.quorum,
+    minHealthySources: chain.minHealthySources,
+    reporters: chain.reporters,
+    onGuarded: chain.onGuarded,
+    mainnet,
+    dryRun
+  });
+}
+
+// Builds the single chain described by the command line options
+function chainFromArgs(parsed): ChainConfig {
+  // a UAV is fed by Chainlink validators, not by sources
+  const required = parsed['view-type'] === 'uav' ? ['poster-key', 'view-address', 'price-deltas'] : ['poster-key', 'sources', 'view-address', 'price-deltas'];
+  const missing = required.filter(option => parsed[option] === undefined);
+  if (missing.length > 0) {
+    throw new TypeError(`Missing required arguments: ${missing.join(', ')}. Provide all the arguments, or a --config file`)
+  }
+
+  const sources = <string[]>(Array.isArray(parsed['sources']) ? parsed['sources'] : [ parsed['sources'] ]).filter(source => source !== undefined);
+  const quorum_min = parsed['quorum'];
+  const testnet_pairs = JSON.parse(parsed['testnet-uniswap-pairs'] || '{}');
+  const mainnet_pairs = JSON.parse(parsed['mainnet-uniswap-pairs'] || '{}');
+
+  const network = getNetwork(parsed['network'], parsed['web3-provider']);
+  const legacy = parsed['legacy-transactions'];
+
+  const chain: ChainConfig = {
+    name: 'default',
+    web3Provider: parsed['web3-provider'],
+    network: parsed['network'],
+    chainId: parsed['chain-id'] !== undefined ? parsed['chain-id'] : network.chainId,
+    confirmations: parsed['confirmations'] !== undefined ? parsed['confirmations'] : network.confirmations,
+    viewAddress: parsed['view-address'],
+    viewType: parsed['view-type'],
+    viewFunction: parsed['view-function'],
+    posterKey: parsed['poster-key'],
+    keystorePassphrase: parsed['keystore-passphrase'],
+    signerAddress: parsed['signer-address'],
+    sources,
+    assets: <string[]>(parsed['asset'] || DEFAULT_ASSETS),
+    priceDeltas: parsePriceDeltas(JSON.parse(parsed['price-deltas'])),
+    // heartbeats and message time limits are optional per asset
+    heartbeats: JSON.parse(parsed['heartbeats'] || '{}'),
+    maxMessageAges: JSON.parse(parsed['max-message-age'] || '{}'),
+    maxClockSkews: JSON.parse(parsed['max-clock-skew'] || '{}'),
+    quorum: quorum_min === undefined ? undefined : { min: quorum_min, tolerance: parsed['quorum-tolerance'] },
+    minHealthySources: parsed['min-healthy-sources'] === undefined ? sources.length : parsed['min-healthy-sources'],
+    reporters: parsed['reporters'] === undefined ? undefined : <string[]>parsed['reporters'],
+    batchReads: parsed['batch-reads'],
+    onGuarded: parsed['on-guarded'],
+    multicallAddress: parsed['multicall-address'],
+    gasLimit: parsed['gas-limit'],
+    maxGasPerTx: parsed['max-gas-per-tx'],
+    gasPrice: parsed['gas-price'],
+    gasStrategy: parsed['gas-strategy'] === undefined ? undefined : parseGasStrategy(parsed['gas-strategy']),
+    feeModel: legacy === undefined ? network.feeModel : (legacy ? 'legacy' : 'eip1559'),
+    timeout: parsed['timeout'] !== undefined ? parsed['timeout'] : network.timeout,
+    // parameters only for testnets that mock uniswap mainnet
+    mockedWorld: parsed['testnet-world'],
+    pairs: {testnet: testnet_pairs, mainnet: mainnet_pairs},
+    mainnetWeb3Provider: parsed['mainnet-web3-provider'],
+    mainnetSnapshot: parsed['mainnet-snapshot']
+  };
+
+  validateChain(chain);
+
+  return chain;
+}
+
+function successLog(result: PosterResult, chain: string) {
+  return {
     message: "Price Feed Poster run completed successfully",
     metric_name: 'PriceFeed-PosterHealth',
     labels: {
-      price_feed_poster_healthy: 1
+      price_feed_poster_healthy: 1,
+      chain,
+      failed_sources: result.failedSources,
+      skipped_messages: result.skipped,
+      guarded_prices: guardedPrices(result.events || {})
     }
   };
-
-  process.stderr.write(JSON.stringify(success_log) + "\n", () => {
-    process.exit(0);
-  });
 }
 
-run().catch((e) => {
-  console.error(`Error encountered: ${e}`);
-  console.error(e);
-  console.log(e.stack)
-  console.log
+// Runs that failed after posting also report what they posted, see `withResult`
+function errorLog(e, chain?: string) {
+  const result: PosterResult | undefined = e.result;
 
-  let error_log = {
+  return {
     message: "Price run failed",
     metric_name: 'PriceFeed-PosterHealth',
     labels: {
       price_feed_poster_healthy: 0,
-      error: e.toString()
+      ...(chain ? {chain} : {}),
+      error: e.toString(),
+      ...(result ? {
+        failed_sources: result.failedSources,
+        skipped_messages: result.skipped,
+        guarded_prices: guardedPrices(result.events || {})
+      } : {})
     }
   };
+}
+
+function writeHealth(log: object): Promise<void> {
+  return new Promise(resolve => {
+    process.stderr.write(JSON.stringify(log) + "\n", () => resolve());
+  });
+}
+
+run().catch(async (e) => {
+  logger.error('Error encountered', {error: e});
 
-  process.stderr.write(JSON.stringify(error_log) + "\n", () => {
-    process.exit(1);
-  })
+  await writeHealth(errorLog(e));
+  process.exit(1);
 });
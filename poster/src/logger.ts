@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = {[field: string]: any};
+
+export interface Logger {
+  debug: (message: string, fields?: LogFields) => void
+  info: (message: string, fields?: LogFields) => void
+  warn: (message: string, fields?: LogFields) => void
+  error: (message: string, fields?: LogFields) => void
+  // A logger that adds `fields` to every line, e.g. the asset being handled
+  child: (fields: LogFields) => Logger
+}
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+const REDACTED = '[REDACTED]';
+// Fields whose values are never logged, e.g. `api_secret` or `poster_key`, but
+// not the names of the headers they are sent in, e.g. `key_header`
+const SECRET_FIELD = /^(?!.*_header$).*(key|secret|passphrase|password|private)/i;
+
+let level: LogLevel = 'info';
+let runContext: LogFields = {};
+let secrets: string[] = [];
+let write = (level: LogLevel, line: string) => {
+  (level === 'warn' || level === 'error' ? process.stderr : process.stdout).write(line + '\n');
+};
+
+export function setLogLevel(newLevel: string) {
+  if (!LEVELS.includes(<LogLevel>newLevel)) {
+    throw new TypeError(`Log level should be one of: ${LEVELS.join(', ')}, got ${newLevel}`);
+  }
+
+  level = <LogLevel>newLevel;
+}
+
+// Replaces where log lines are written, by default stdout for `debug` and
+// `info` and stderr for `warn` and `error`
+export function setLogWriter(writer: (level: LogLevel, line: string) => void) {
+  write = writer;
+}
+
+// Starts a new run, so that every line logged until the next one can be
+// correlated by its `run_id`, and carries the run's `context`, e.g. its chain
+export function startRun(context: LogFields = {}): string {
+  const runId = crypto.randomBytes(8).toString('hex');
+  runContext = {run_id: runId, ...context};
+
+  return runId;
+}
+
+// Registers a value to be masked wherever it appears in a log line, such as
+// the poster key or a source's credentials
+export function addSecret(secret: string | undefined) {
+  if (secret && secret.length >= 4 && !secrets.includes(secret)) {
+    secrets = [...secrets, secret];
+  }
+}
+
+// Registers the values of a config's secret fields, e.g. a source's credentials
+export function addSecretsFrom(config: object) {
+  Object.entries(config).forEach(([field, value]) => {
+    if (SECRET_FIELD.test(field) && typeof value === 'string') {
+      addSecret(value);
+    }
+  });
+}
+
+export function createLogger(context: LogFields = {}): Logger {
+  const logAt = (lineLevel: LogLevel) => (message: string, fields: LogFields = {}) => {
+    if (LEVELS.indexOf(lineLevel) < LEVELS.indexOf(level)) {
+      return;
+    }
+
+    const line = {
+      time: new Date().toISOString(),
+      level: lineLevel,
+      message,
+      ...runContext,
+      ...context,
+      ...fields
+    };
+
+    write(lineLevel, redactSecrets(JSON.stringify(redact(line))));
+  };
+
+  return {
+    debug: logAt('debug'),
+    info: logAt('info'),
+    warn: logAt('warn'),
+    error: logAt('error'),
+    child: (fields: LogFields) => createLogger({...context, ...fields})
+  };
+}
+
+export const logger = createLogger();
+
+function redact(value: any, field: string = ''): any {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  if (SECRET_FIELD.test(field) && typeof value !== 'object') {
+    return REDACTED;
+  }
+
+  if (value instanceof Error) {
+    return {name: value.name, message: value.message, stack: value.stack};
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, field));
+  }
+
+  if (typeof value === 'object' && value.constructor === Object) {
+    return Object.entries(value).reduce((redacted, [key, item]) => {
+      return {...redacted, [key]: redact(item, key)};
+    }, {});
+  }
+
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  return value;
+}
+
+function redactSecrets(line: string): string {
+  return secrets.reduce((redacted, secret) => redacted.split(secret).join(REDACTED), line);
+}
@@ -1,74 +1,155 @@
-
+import fs from 'fs';
 import Web3 from 'web3';
-import { read, readMany, encode } from './util';
+import { mockUniswapTokenPair as mockPair, mockUniswapV3Pool as mockPool, revertReason, uniswapV2Pair, uniswapV3Pool } from './contracts';
 import { postWithRetries } from './post_with_retries';
+import { Fees } from './fees';
+import { Signer } from './signer';
+import { logger } from './logger';
+
+export const DEFAULT_MAINNET_WEB3_PROVIDER = 'https://mainnet-eth.compound.finance/';
+
+// What `MockUniswapTokenPair.update` takes from a V2 pair
+export interface PairState {
+  reserve0: string
+  reserve1: string
+  blockTimestampLast: string
+  price0CumulativeLast: string
+  price1CumulativeLast: string
+}
+
+// What a V3 pool's `observe` returns
+export interface PoolObservations {
+  tickCumulatives: string[]
+  secondsPerLiquidityCumulativeX128s: string[]
+}
+
+// Where mocked pairs and pools take their state from, by their mainnet address
+export interface MainnetState {
+  pair(address: string): Promise<PairState>
+  observe(address: string, secondsAgos: number[]): Promise<PoolObservations>
+}
 
-const mainnetWeb3 = new Web3(new Web3.providers.HttpProvider('https://mainnet-eth.compound.finance/'));
+// A recorded `MainnetState`, with pool observations by how many seconds ago
+// they were taken:
+//   {"pairs": {"0xPair": {"reserve0": "1", ...}},
+//    "pools": {"0xPool": {"1800": {"tickCumulative": "-1", "secondsPerLiquidityCumulativeX128": "1"}, "0": {...}}}}
+export interface MainnetSnapshot {
+  pairs?: {[address: string]: PairState}
+  pools?: {[address: string]: {[secondsAgo: string]: {tickCumulative: string, secondsPerLiquidityCumulativeX128: string}}}
+}
+
+// Reads mainnet state from a node, or from a snapshot file when one is given,
+// defaulting to `DEFAULT_MAINNET_WEB3_PROVIDER`
+export function mainnetState(options: {web3Provider?: string, snapshot?: string} = {}): MainnetState {
+  if (options.snapshot) {
+    return mainnetSnapshot(JSON.parse(fs.readFileSync(options.snapshot, 'utf8')));
+  }
 
-async function getReserves(pair: string) {
-  return await readMany(
-    pair,
-    "getReserves()",
-    [],
-    ["uint112","uint112","uint32"],
-    mainnetWeb3
-  );
+  return mainnetNode(new Web3(options.web3Provider || DEFAULT_MAINNET_WEB3_PROVIDER));
 }
 
-async function getCumulativePrices(pair: string) {
-  const price0 = await read(
-    pair,
-    "price0CumulativeLast()",
-    [],
-    "uint256",
-    mainnetWeb3
-  );
-  const price1 = await read(
-    pair,
-    "price1CumulativeLast()",
-    [],
-    "uint256",
-    mainnetWeb3
-  );
-
-  return [price0, price1];
+export function mainnetNode(web3: Web3): MainnetState {
+  return {
+    pair: async (address) => {
+      const pair = uniswapV2Pair(address, web3);
+      const [reserves, price0CumulativeLast, price1CumulativeLast] = await Promise.all([
+        pair.getReserves(),
+        pair.price0CumulativeLast(),
+        pair.price1CumulativeLast()
+      ]);
+
+      return {...reserves, price0CumulativeLast, price1CumulativeLast};
+    },
+    observe: (address, secondsAgos) => uniswapV3Pool(address, web3).observe(secondsAgos)
+  };
 }
 
-function buildTrxData(reserve0, reserve1, blockTimestampLast, price0, price1, functionSig){
-  return encode(
-    functionSig,
-    [reserve0, reserve1, blockTimestampLast, price0, price1]
-  );
+export function mainnetSnapshot(snapshot: MainnetSnapshot): MainnetState {
+  // addresses are matched whatever their case
+  const byAddress = <T>(entries: {[address: string]: T} = {}) => {
+    return new Map(Object.entries(entries).map(([address, entry]) => [address.toLowerCase(), entry]));
+  };
+  const pairs = byAddress(snapshot.pairs);
+  const pools = byAddress(snapshot.pools);
+
+  return {
+    pair: async (address) => {
+      const pair = pairs.get(address.toLowerCase());
+      if (!pair) {
+        throw new Error(`No pair ${address} in the mainnet snapshot`);
+      }
+
+      return pair;
+    },
+    observe: async (address, secondsAgos) => {
+      const pool = pools.get(address.toLowerCase());
+      const observations = secondsAgos.map(secondsAgo => {
+        const observation = pool && pool[secondsAgo];
+        if (!observation) {
+          throw new Error(`No observation from ${secondsAgo} seconds ago for pool ${address} in the mainnet snapshot`);
+        }
+
+        return observation;
+      });
+
+      return {
+        tickCumulatives: observations.map(({tickCumulative}) => tickCumulative),
+        secondsPerLiquidityCumulativeX128s: observations.map(({secondsPerLiquidityCumulativeX128}) => secondsPerLiquidityCumulativeX128)
+      };
+    }
+  };
 }
 
-async function mockUniswapTokenPair(symbol: string, senderKey: string, pairs, gas: number, gasPrice: number, web3: Web3) {
+async function mockUniswapTokenPair(symbol: string, sender: Signer | string, pairs, gas: number, fees: Fees, web3: Web3, mainnet: MainnetState) {
   const testnetPair = pairs.testnet[symbol];
-  const mainnetPair = pairs.mainnet[symbol];
-  const reserves = await getReserves(mainnetPair);
-  const cumulatives = await getCumulativePrices(mainnetPair);
+  const { reserve0, reserve1, blockTimestampLast, price0CumulativeLast, price1CumulativeLast } = await mainnet.pair(pairs.mainnet[symbol]);
+
+  logger.info('Mocking uniswap token pair', {symbol, reserve0, reserve1, block_timestamp_last: blockTimestampLast, cumulative_price0: price0CumulativeLast, cumulative_price1: price1CumulativeLast});
+
+  const trx = {
+    ...mockPair(testnetPair).update(reserve0, reserve1, blockTimestampLast, price0CumulativeLast, price1CumulativeLast),
+    gas: gas,
+    ...fees
+  };
+
+  try {
+    return await postWithRetries(trx, sender, web3);
+  } catch (e) {
+    throw new Error(`MockUniswapTokenPair.update failed at ${testnetPair}: ${revertReason(e, web3)}`);
+  }
+}
+
+export async function mockUniswapTokenPairs(assets: string[], sender: Signer | string, pairs, gas: number, fees: Fees, web3: Web3, mainnet: MainnetState) {
+  for (const asset of assets) {
+    await mockUniswapTokenPair(asset.toUpperCase(), sender, pairs, gas, fees, web3, mainnet);
+  }
+}
 
-  const reserve0 = reserves[0];
-  const reserve1 = reserves[1];
-  const blockTimestampLast = reserves[2];
-  const cumulativePrice0 = cumulatives[0];
-  const cumulativePrice1 = cumulatives[1];
+// Mirrors the observations a `UniswapAnchoredView` reads its anchor from, the
+// tick cumulatives at the start and end of the anchor period, from a mainnet
+// V3 pool into a `MockUniswapV3Pool`
+async function mockUniswapV3Pool(symbol: string, sender: Signer | string, pools, anchorPeriod: number, gas: number, fees: Fees, web3: Web3, mainnet: MainnetState) {
+  const testnetPool = pools.testnet[symbol];
+  const secondsAgos = [anchorPeriod, 0];
+  const { tickCumulatives, secondsPerLiquidityCumulativeX128s } = await mainnet.observe(pools.mainnet[symbol], secondsAgos);
 
-  console.log(`Mocking uniswap token pair for ${symbol} with results--> ${reserve0} ${reserve1} ${blockTimestampLast} ${cumulativePrice0} ${cumulativePrice1}`);
+  logger.info('Mocking uniswap v3 pool', {symbol, seconds_agos: secondsAgos, tick_cumulatives: tickCumulatives});
 
-  const functionSig = "update(uint112,uint112,uint32,uint256,uint256)";
-  const trxData = buildTrxData(reserve0, reserve1, blockTimestampLast, cumulativePrice0, cumulativePrice1, functionSig);
   const trx = {
-      data: trxData,
-      to: testnetPair,
-      gasPrice: gasPrice,
-      gas: gas
+    ...mockPool(testnetPool).setObservations(secondsAgos, tickCumulatives, secondsPerLiquidityCumulativeX128s),
+    gas: gas,
+    ...fees
   };
 
-  return await postWithRetries(trx, senderKey, web3);
+  try {
+    return await postWithRetries(trx, sender, web3);
+  } catch (e) {
+    throw new Error(`MockUniswapV3Pool.setObservations failed at ${testnetPool}: ${revertReason(e, web3)}`);
+  }
 }
 
-export async function mockUniswapTokenPairs(assets: string[], senderKey: string, pairs, gas: number, gasPrice: number, web3: Web3) {
+export async function mockUniswapV3Pools(assets: string[], sender: Signer | string, pools, anchorPeriod: number, gas: number, fees: Fees, web3: Web3, mainnet: MainnetState) {
   for (const asset of assets) {
-    await mockUniswapTokenPair(asset.toUpperCase(), senderKey, pairs, gas, gasPrice, web3);
+    await mockUniswapV3Pool(asset.toUpperCase(), sender, pools, anchorPeriod, gas, fees, web3, mainnet);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,156 @@
+import http from 'http';
+import { BigNumber as BN } from 'bignumber.js';
+import { logger } from './logger';
+import { PosterResult } from './poster';
+
+type MetricType = 'counter' | 'gauge';
+type Labels = {[name: string]: string};
+
+export class Metric {
+  name: string;
+  help: string;
+  type: MetricType;
+  values: Map<string, {labels: Labels, value: number}>;
+
+  constructor(name: string, help: string, type: MetricType) {
+    this.name = name;
+    this.help = help;
+    this.type = type;
+    this.values = new Map();
+  }
+
+  inc(labels: Labels = {}, value: number = 1) {
+    const key = JSON.stringify(labels);
+    const current = this.values.get(key);
+    this.values.set(key, {labels, value: (current ? current.value : 0) + value});
+  }
+
+  set(labels: Labels, value: number) {
+    this.values.set(JSON.stringify(labels), {labels, value});
+  }
+
+  get(labels: Labels = {}): number | undefined {
+    const current = this.values.get(JSON.stringify(labels));
+
+    return current ? current.value : undefined;
+  }
+
+  reset() {
+    this.values.clear();
+  }
+
+  // Renders the metric in the Prometheus text exposition format
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    this.values.forEach(({labels, value}) => {
+      const pairs = Object.entries(labels).map(([name, label]) => `${name}="${escapeLabel(label)}"`);
+      lines.push(`${this.name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${value}`);
+    });
+
+    return lines.join('\n');
+  }
+}
+
+// Chain of the run in progress, see `runLabels`
+let runChain = 'default';
+
+// Starts labelling metrics recorded within a run, rather than from its result,
+// with the run's chain
+export function setRunChain(chain: string) {
+  runChain = chain;
+}
+
+// Labels of a metric recorded within a run, such as a retry, by the run's chain
+export function runLabels(labels: Labels = {}): Labels {
+  return {chain: runChain, ...labels};
+}
+
+export const metrics = {
+  runs: new Metric('poster_runs_total', 'Number of poster runs, by result', 'counter'),
+  sourceFailures: new Metric('poster_source_failures_total', 'Number of times a source could not be read, by chain', 'counter'),
+  assetsPosted: new Metric('poster_assets_posted_total', 'Number of prices posted, by asset', 'counter'),
+  assetsSkipped: new Metric('poster_assets_skipped_total', 'Number of prices not posted, by asset and reason', 'counter'),
+  gasUsed: new Metric('poster_gas_used_total', 'Gas used by mined posting transactions', 'counter'),
+  retries: new Metric('poster_retries_total', 'Number of times a posting transaction was retried, by chain', 'counter'),
+  guarded: new Metric('poster_prices_guarded_total', 'Number of posted prices the view rejected for being too far from their anchor, by asset', 'counter'),
+  lastPost: new Metric('poster_last_post_timestamp_seconds', 'Unix time an asset price was last posted successfully', 'gauge'),
+  deviation: new Metric('poster_price_deviation_percent', 'Latest percent difference between the reported and on-chain price of an asset', 'gauge')
+};
+
+export function renderMetrics(): string {
+  return Object.values(metrics).map(metric => metric.render()).join('\n') + '\n';
+}
+
+// Records the outcome of a completed run. Posted prices are only counted once
+// the transaction carrying them was mined successfully, and dry runs never
+// count as posts.
+export function recordRun(result: PosterResult, chain: string, now: number = Date.now() / 1000) {
+  metrics.runs.inc({chain, result: 'success'});
+  recordResult(result, chain, now);
+}
+
+// `result` is what the run did before it failed, if it got as far as posting
+export function recordFailedRun(chain: string, result?: PosterResult, now: number = Date.now() / 1000) {
+  metrics.runs.inc({chain, result: 'failure'});
+  if (result) {
+    recordResult(result, chain, now);
+  }
+}
+
+function recordResult(result: PosterResult, chain: string, now: number) {
+  result.decisions.forEach(({symbol, price, prev, post, reason}) => {
+    if (!post) {
+      metrics.assetsSkipped.inc({chain, symbol, reason});
+    }
+    if (prev !== undefined && prev !== 0) {
+      metrics.deviation.set({chain, symbol}, new BN(price).minus(prev).abs().dividedBy(prev).multipliedBy(100).toNumber());
+    }
+  });
+
+  (result.transactions || []).forEach(({symbols, receipt}) => {
+    metrics.gasUsed.inc({chain}, receipt.gasUsed);
+
+    if (receipt.status) {
+      symbols.forEach(symbol => {
+        metrics.assetsPosted.inc({chain, symbol});
+        metrics.lastPost.set({chain, symbol}, Math.floor(now));
+      });
+    }
+  });
+
+  Object.entries(result.events || {}).forEach(([symbol, {guarded}]) => {
+    if (guarded) {
+      metrics.guarded.inc({chain, symbol});
+    }
+  });
+}
+
+// Serves the metrics on `/metrics`, anything else is a 404. Resolves once the
+// server is listening, and rejects when it can't, e.g. on a port in use.
+export function startMetricsServer(port: number): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    if (req.method === 'GET' && req.url && req.url.split('?')[0] === '/metrics') {
+      res.writeHead(200, {'Content-Type': 'text/plain; version=0.0.4'});
+      res.end(renderMetrics());
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', e => reject(new Error(`Could not serve metrics on port ${port}: ${e.message}`)));
+    server.listen(port, () => {
+      logger.info('Serving metrics', {port});
+
+      // errors once listening are logged, without stopping the poster
+      server.removeAllListeners('error');
+      server.on('error', e => logger.error('Metrics server error', {port, error: e}));
+      resolve(server);
+    });
+  });
+}
+
+function escapeLabel(label: string): string {
+  return label.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,104 @@
+import Web3 from 'web3';
+import { PreparedCall, prepareCall, revertReason } from './contracts';
+import { logger } from './logger';
+import { zip } from './util';
+
+// How many reads are sent together:
+//   multicall  in one `eth_call` to a Multicall3 contract
+//   rpc        in one JSON-RPC batch request
+//   none       each in its own `eth_call`
+export type ReadMode = 'multicall' | 'rpc' | 'none';
+
+export const READ_MODES: ReadMode[] = ['multicall', 'rpc', 'none'];
+
+// Multicall3 is deployed at the same address on most chains, see https://www.multicall3.com
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+// Max number of calls sent in a single batch
+const MAX_BATCH_SIZE = 100;
+
+export interface ReadOptions {
+  mode?: ReadMode
+  multicallAddress?: string
+}
+
+// Sends `calls` and decodes their results, in order. A batch that can't be
+// sent, e.g. as the chain has no Multicall3 or the node does not accept batch
+// requests, is retried as individual calls. Fails if any single call fails.
+export async function readAll(calls: PreparedCall[], web3: Web3, options: ReadOptions = {}): Promise<any[]> {
+  const mode = options.mode || 'none';
+  const results: any[] = [];
+
+  for (let i = 0; i < calls.length; i += MAX_BATCH_SIZE) {
+    const batch = calls.slice(i, i + MAX_BATCH_SIZE);
+    results.push(...await readBatch(batch, mode, options.multicallAddress || MULTICALL3_ADDRESS, web3));
+  }
+
+  return results;
+}
+
+// Result of a call sent in a batch, with its return data or why it failed
+interface BatchResult {
+  returnData?: string
+  error?: any
+}
+
+async function readBatch(calls: PreparedCall[], mode: ReadMode, multicallAddress: string, web3: Web3): Promise<any[]> {
+  let results: BatchResult[] | undefined;
+  if (mode !== 'none' && calls.length > 1) {
+    try {
+      results = mode === 'multicall' ? await multicall(calls, multicallAddress, web3) : await rpcBatch(calls, web3);
+    } catch (e) {
+      logger.warn('Batched read failed, falling back to individual calls', {mode, calls: calls.length, error: e});
+    }
+  }
+
+  if (results === undefined) {
+    const returnData = await Promise.all(calls.map(({to, data}) => web3.eth.call({to, data})));
+    results = returnData.map(returnData => ({returnData}));
+  }
+
+  return zip(calls, results).map(([call, {returnData, error}]) => {
+    if (error) {
+      throw new Error(`Call to ${call.to} failed: ${revertReason(error, web3)}`);
+    }
+
+    return call.decode(<string>returnData);
+  });
+}
+
+// Reads through Multicall3's `aggregate3`, letting calls fail on their own so
+// that a revert is reported for the call that caused it
+async function multicall(calls: PreparedCall[], multicallAddress: string, web3: Web3): Promise<BatchResult[]> {
+  const aggregate = prepareCall('Multicall3', multicallAddress, 'aggregate3', [
+    calls.map(({to, data}) => [to, true, data])
+  ]);
+  const { returnData } = aggregate.decode(await web3.eth.call({to: aggregate.to, data: aggregate.data}));
+
+  return returnData.map(({success, returnData}) => success ? {returnData} : {error: {data: returnData}});
+}
+
+// Reads through a single JSON-RPC request holding every `eth_call`
+async function rpcBatch(calls: PreparedCall[], web3: Web3): Promise<BatchResult[]> {
+  const provider = <any>web3.currentProvider;
+  const requests = calls.map(({to, data}, id) => ({jsonrpc: '2.0', id, method: 'eth_call', params: [{to, data}, 'latest']}));
+
+  const responses: any[] = await new Promise((resolve, reject) => {
+    provider.send(requests, (err, responses) => err ? reject(err) : resolve(responses));
+  });
+  if (!Array.isArray(responses) || responses.length !== calls.length) {
+    throw new Error('Node does not support JSON-RPC batch requests');
+  }
+
+  const byId = new Map(responses.map(response => [response.id, response]));
+
+  return calls.map((_call, id) => {
+    const response = byId.get(id);
+    if (!response) {
+      throw new Error(`Node sent no response for call ${id} of a batch`);
+    }
+
+    // Reverts come back as errors, with the revert data when the node has it
+    return response.error ? {error: response.error} : {returnData: response.result};
+  });
+}
@@ -0,0 +1,59 @@
+import Web3 from 'web3';
+import { FeeModel } from './fees';
+
+export interface NetworkProfile {
+  // Chain the provider has to be connected to, unchecked when unset
+  chainId?: number
+  // Blocks to wait for after a transaction is mined before it counts as posted
+  confirmations: number
+  // Seconds to wait for a transaction before retrying it
+  timeout: number
+  feeModel: FeeModel
+}
+
+// Used when no network is named, which keeps what the poster did before there
+// were profiles: a local node on port 8545 confirms after 1 block, as it only
+// mines when transactions come in, and any other node after 10
+export function defaultNetwork(web3Provider: string = ''): NetworkProfile {
+  return {
+    confirmations: /:8545$/.test(web3Provider) ? 1 : 10,
+    timeout: 180,
+    feeModel: 'eip1559'
+  };
+}
+
+export const NETWORKS: {[name: string]: NetworkProfile} = {
+  // A local ganache or hardhat node, on any chain id
+  development: {confirmations: 1, timeout: 60, feeModel: 'eip1559'},
+  mainnet: {chainId: 1, confirmations: 10, timeout: 180, feeModel: 'eip1559'},
+  goerli: {chainId: 5, confirmations: 3, timeout: 180, feeModel: 'eip1559'},
+  sepolia: {chainId: 11155111, confirmations: 3, timeout: 180, feeModel: 'eip1559'},
+  // zkSync batches are final on L1 much later, the sequencer's receipt is what matters here
+  'zksync-era': {chainId: 324, confirmations: 1, timeout: 120, feeModel: 'eip1559'},
+  'zksync-goerli': {chainId: 280, confirmations: 1, timeout: 120, feeModel: 'eip1559'},
+  arbitrum: {chainId: 42161, confirmations: 1, timeout: 120, feeModel: 'eip1559'},
+  optimism: {chainId: 10, confirmations: 1, timeout: 120, feeModel: 'eip1559'}
+};
+
+export function getNetwork(name: string | undefined, web3Provider?: string): NetworkProfile {
+  if (name === undefined) {
+    return defaultNetwork(web3Provider);
+  }
+
+  const network = NETWORKS[name];
+  if (!network) {
+    throw new TypeError(`Unknown network \`${name}\`, expected one of: ${Object.keys(NETWORKS).join(', ')}`);
+  }
+
+  return network;
+}
+
+// Refuses to post through a provider connected to a different chain than expected
+export async function checkChainId(expected: number | undefined, web3: Web3): Promise<number> {
+  const chainId = await web3.eth.getChainId();
+  if (expected !== undefined && chainId !== expected) {
+    throw new TypeError(`Provider is connected to chain ${chainId}, expected chain ${expected}`);
+  }
+
+  return chainId;
+}
@@ -0,0 +1,53 @@
+import Web3 from 'web3';
+import { TransactionReceipt } from 'web3-core';
+import { logger } from './logger';
+
+// Hands out nonces for a single posting account and remembers every
+// transaction sent with each nonce, so that retries replace earlier attempts
+// instead of racing them with a new nonce.
+export class NonceManager {
+  readonly address: string;
+  private web3: Web3;
+  private sent: {[nonce: number]: string[]} = {};
+
+  constructor(address: string, web3: Web3) {
+    this.address = address;
+    this.web3 = web3;
+  }
+
+  // Returns the lowest nonce that has not been mined yet. When transactions
+  // from an earlier run are still pending this is the nonce of the oldest one,
+  // which the next transaction then replaces.
+  async next(): Promise<number> {
+    const [latest, pending] = await Promise.all([
+      this.web3.eth.getTransactionCount(this.address, 'latest'),
+      this.web3.eth.getTransactionCount(this.address, 'pending')
+    ]);
+
+    if (pending > latest) {
+      logger.warn('Found pending transactions, replacing the oldest', {address: this.address, pending: pending - latest, nonce: latest});
+    }
+
+    return latest;
+  }
+
+  track(nonce: number, transactionHash: string) {
+    this.sent[nonce] = [...(this.sent[nonce] || []), transactionHash];
+  }
+
+  sentWith(nonce: number): string[] {
+    return this.sent[nonce] || [];
+  }
+
+  // Finds the receipt of whichever attempt with this nonce ended up being mined
+  async findMined(nonce: number): Promise<TransactionReceipt | undefined> {
+    for (const transactionHash of this.sentWith(nonce)) {
+      const receipt = await this.web3.eth.getTransactionReceipt(transactionHash);
+      if (receipt) {
+        return receipt;
+      }
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,134 @@
+import { BigNumber as BN } from 'bignumber.js';
+
+// When an asset's price is posted. A plain number in the price deltas is the
+// same as `{delta: number}`.
+export interface PricePolicy {
+  // Min percent the price has to move, either way, to be posted. 0 always
+  // posts, as with a bare delta.
+  delta?: number
+  // Min percent the price has to rise or fall to be posted, in place of
+  // `delta` for that direction
+  up?: number
+  down?: number
+  // Min move in USD for the price to be posted, which posts it even when
+  // within the relative delta. 0 always posts.
+  absolute?: number
+  // Min seconds since the on-chain price was last posted, which holds back
+  // prices that moved past their delta but not those with an expired heartbeat
+  minInterval?: number
+  // Never post the asset
+  disabled?: boolean
+}
+
+export type PriceDeltas = {[asset: string]: number | PricePolicy};
+
+// The policy of an asset from its price delta, which may be given as a number
+export function pricePolicy(delta: number | PricePolicy | undefined): PricePolicy {
+  return typeof delta === 'number' ? {delta} : delta || {};
+}
+
+const POLICY_KEYS = ['delta', 'up', 'down', 'absolute', 'min_interval', 'disabled'];
+
+// Reads an asset's policy as written in a config file or `--price-deltas`,
+// with snake_case keys
+export function parsePricePolicy(asset: string, raw: number | {[key: string]: any}): PricePolicy {
+  if (typeof raw === 'number') {
+    return {delta: raw};
+  }
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new TypeError(`Price delta of ${asset} should be a percent or a policy object, got ${JSON.stringify(raw)}`);
+  }
+
+  const unknown = Object.keys(raw).filter(key => !POLICY_KEYS.includes(key));
+  if (unknown.length > 0) {
+    throw new TypeError(`Price delta of ${asset} has unknown keys ${unknown.join(', ')}, expected any of: ${POLICY_KEYS.join(', ')}`);
+  }
+
+  const { delta, up, down, absolute, min_interval, disabled } = raw;
+  const policy: PricePolicy = {delta, up, down, absolute, minInterval: min_interval, disabled};
+
+  // leave out the keys that weren't set, so that policies compare cleanly
+  return <PricePolicy>Object.fromEntries(Object.entries(policy).filter(([_key, value]) => value !== undefined));
+}
+
+// Reads the policies of all assets in a config file or `--price-deltas`
+export function parsePriceDeltas(raw: {[asset: string]: number | {[key: string]: any}}): {[asset: string]: PricePolicy} {
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new TypeError(`Price deltas should be an object keyed by asset, got ${JSON.stringify(raw)}`);
+  }
+
+  return Object.fromEntries(Object.entries(raw).map(([asset, policy]) => [asset, parsePricePolicy(asset, policy)]));
+}
+
+export function validatePricePolicy(asset: string, policy: PricePolicy | undefined) {
+  if (policy === undefined) {
+    throw new TypeError(`Missing price delta for ${asset}, every asset needs one in --price-deltas`);
+  }
+
+  const percent = (field: string, value: number | undefined) => {
+    if (value !== undefined && !(typeof value === 'number' && value >= 0 && value <= 100)) {
+      throw new TypeError(`Price delta \`${field}\` of ${asset} should be a percent between 0 and 100, got ${value}`);
+    }
+  };
+  percent('delta', policy.delta);
+  percent('up', policy.up);
+  percent('down', policy.down);
+
+  if (policy.absolute !== undefined && !(typeof policy.absolute === 'number' && policy.absolute >= 0)) {
+    throw new TypeError(`Price delta \`absolute\` of ${asset} should be a non-negative number of USD, got ${policy.absolute}`);
+  }
+  if (policy.minInterval !== undefined && !(Number.isInteger(policy.minInterval) && policy.minInterval > 0)) {
+    throw new TypeError(`Price delta \`min_interval\` of ${asset} should be a positive whole number of seconds, got ${policy.minInterval}`);
+  }
+  if (policy.disabled !== undefined && typeof policy.disabled !== 'boolean') {
+    throw new TypeError(`Price delta \`disabled\` of ${asset} should be true or false, got ${policy.disabled}`);
+  }
+
+  if (policy.disabled) {
+    return;
+  }
+
+  const relative = policy.delta !== undefined || policy.up !== undefined || policy.down !== undefined;
+  if (!relative && policy.absolute === undefined) {
+    throw new TypeError(`Price delta of ${asset} needs a \`delta\`, \`up\` and \`down\`, or an \`absolute\` delta`);
+  }
+  if (relative && policy.delta === undefined && (policy.up === undefined || policy.down === undefined)) {
+    throw new TypeError(`Price delta of ${asset} sets only one of \`up\` and \`down\`, set the other or a \`delta\` for both`);
+  }
+}
+
+// Min percent move posting `price`, depending on whether it rose or fell from
+// `prevPrice`, unset for policies with only an absolute delta
+export function relativeDelta(policy: PricePolicy, price: number, prevPrice: number): number | undefined {
+  const directed = price >= prevPrice ? policy.up : policy.down;
+
+  return directed !== undefined ? directed : policy.delta;
+}
+
+// Whether `price` is close enough to `prevPrice` not to be posted, that is
+// within both the relative delta for its direction and the absolute delta
+export function inPolicyRange(policy: PricePolicy, price: number, prevPrice: number): boolean {
+  const delta = relativeDelta(policy, price, prevPrice);
+  if (delta !== undefined && !inDeltaRange(delta, price, prevPrice)) {
+    return false;
+  }
+
+  if (policy.absolute !== undefined) {
+    // like a relative delta, 0 always posts
+    return policy.absolute > 0 && new BN(price).minus(prevPrice).abs().isLessThanOrEqualTo(policy.absolute);
+  }
+
+  return true;
+}
+
+export function inDeltaRange(delta: number, price: number, prevPrice: number) {
+  // Always update prices if delta is set to 0 or delta is not within expected range [0..100]%
+  if (delta <= 0 || delta > 100) {
+    return false
+  };
+
+  const minDifference = new BN(prevPrice).multipliedBy(delta).dividedBy(100);
+  const difference = new BN(prevPrice).minus(new BN(price)).abs();
+
+  return difference.isLessThanOrEqualTo(minDifference);
+}
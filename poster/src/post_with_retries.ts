@@ -1,26 +1,22 @@
 import Web3 from 'web3';
-import Utils from 'web3-utils';
 import { TransactionConfig, TransactionReceipt } from 'web3-core';
-
-function ensureHex(val: string, type: string): string {
-  if (Utils.isHexStrict(val)) {
-    return val;
-  }
-
-  const val0x = `0x${val}`;
-  if (Utils.isHexStrict(val0x)) {
-    return val0x;
-  }
-
-  throw new Error(`Invalid hex for ${type}: got \`${val}\``);
-}
+import { bumpFees, Fees } from './fees';
+import { logger } from './logger';
+import { metrics, runLabels } from './metrics';
+import { NonceManager } from './nonce_manager';
+import { Signer, toSigner } from './signer';
 
 function isUnderpriced(e) {
-  return e.message === 'Returned error: replacement transaction underpriced';
+  return e.message && e.message.includes('underpriced');
 }
 
 function isTimeout(e) {
-  return /Error: Timeout exceeded during the transaction confirmation process. Be aware the transaction could still get confirmed!/.test(e.error);
+  return /Error: Timeout exceeded during the transaction confirmation process. Be aware the transaction could still get confirmed!/.test(e.error) ||
+    (e.message && e.message.includes('was not mined within'));
+}
+
+function isNonceTooLow(e) {
+  return e.message && (e.message.includes('nonce too low') || e.message.includes('already been mined'));
 }
 
 function maybeIsOutOfGas(e) {
@@ -29,54 +25,119 @@ function maybeIsOutOfGas(e) {
 
 const SLEEP_DURATION = 3000; // 3s
 const RETRIES = 3;
-const GAS_PRICE_ADJUSTMENT = 1.2; // Increase gas price by this percentage each retry
+const GAS_PRICE_ADJUSTMENT = 1.2; // Increase gas price (or max and priority fees) by this percentage each retry
 const GAS_ADJUSTMENT = 1.5; // Increase gas limit by this percentage each retry
+const CANCEL_GAS = 21000;
 
-async function postWithRetries(transaction: TransactionConfig, signerKey: string, web3: Web3, retries: number = RETRIES, attempt: number = 0) {
-  console.log(`Running Open Price Feed Poster${attempt > 0 ? ` [attempt ${attempt}]` : ''}...`);
+// Fees raised on retries are held to `maxFee`, see `feeCap`
+async function postWithRetries(transaction: TransactionConfig, signer: Signer | string, web3: Web3, retries: number = RETRIES, attempt: number = 0, nonceManager?: NonceManager, maxFee?: number) {
+  logger.info('Running Open Price Feed Poster', {attempt});
 
-  signerKey = ensureHex(signerKey, 'private key');
+  signer = toSigner(signer);
 
-  let pubKey = web3.eth.accounts.privateKeyToAccount(signerKey)
+  logger.info('Posting from account', {address: signer.address});
 
-  console.log(`Posting from account: ${pubKey.address}`);
+  nonceManager = nonceManager || new NonceManager(signer.address, web3);
 
-  let nonce = await web3.eth.getTransactionCount(pubKey.address)
-  transaction.nonce = nonce
+  // The nonce is kept through all retries, so each retry replaces the previous attempt
+  if (transaction.nonce === undefined) {
+    transaction.nonce = await nonceManager.next();
+  }
+  const nonce = transaction.nonce;
 
   try {
-    return await signAndSend(transaction, signerKey, web3);
+    return await signAndSend(transaction, signer, web3, nonceManager);
   } catch (e) {
-    console.debug({transaction});
-    console.warn('Failed to post Open Price Feed:');
-    console.warn(e);
-
-    // Try more gas and higher gas price, reverse engineering geth/parity errors is error-prone
-    transaction = {
-      ...transaction,
-      gas: Math.floor(Number(transaction.gas) * GAS_ADJUSTMENT),
-      gasPrice: Math.floor(Number(transaction.gasPrice) * GAS_PRICE_ADJUSTMENT)
-    };
+    logger.debug('Failed transaction', {transaction});
+    logger.warn('Failed to post Open Price Feed', {nonce, attempt, error: e});
+
+    if (isNonceTooLow(e)) {
+      // An earlier attempt with this nonce may have been mined while we were waiting on a later one
+      const receipt = await nonceManager.findMined(nonce);
+      if (receipt) {
+        logger.info('Transaction was mined', {nonce, transaction_hash: receipt.transactionHash});
+        return receipt;
+      }
+
+      // Otherwise the nonce was used by something else, so move on to the next one
+      transaction = {...transaction, nonce: undefined};
+    } else if (isUnderpriced(e) || isTimeout(e)) {
+      // The nonce is still pending, replace it with the same transaction at higher fees
+      transaction = bumpFees(transaction, GAS_PRICE_ADJUSTMENT, maxFee);
+    } else {
+      // Try more gas and higher gas price, reverse engineering geth/parity errors is error-prone
+      transaction = {
+        ...bumpFees(transaction, GAS_PRICE_ADJUSTMENT, maxFee),
+        gas: Math.floor(Number(transaction.gas) * GAS_ADJUSTMENT)
+      };
+
+      // A reverted transaction was mined, and used up its nonce
+      if (maybeIsOutOfGas(e)) {
+        transaction.nonce = undefined;
+      }
+    }
 
     if (retries > 0) {
+      metrics.retries.inc(runLabels());
+
       // Sleep for some time before retrying
       await (new Promise(okay => setTimeout(okay, SLEEP_DURATION)));
 
-      return postWithRetries(transaction, signerKey, web3, retries - 1, attempt + 1);
+      return postWithRetries(transaction, signer, web3, retries - 1, attempt + 1, nonceManager, maxFee);
     } else {
       throw new Error(`Failed to run Open Price Feed poster after ${attempt} attempt(s): error=\`${e.toString()}\``);
     }
   }
 }
 
-async function signAndSend(transaction: TransactionConfig, signerKey: string, web3: Web3): Promise<TransactionReceipt> {
+// Replaces a stuck transaction with a 0-value transfer to ourselves, which frees
+// up the nonce for later transactions
+async function cancelTransaction(nonce: number, fees: Fees, signer: Signer | string, web3: Web3, retries: number = RETRIES, maxFee?: number): Promise<TransactionReceipt | undefined> {
+  signer = toSigner(signer);
+
+  const address = signer.address;
+  let transaction = <TransactionConfig>{
+    to: address,
+    value: 0,
+    gas: CANCEL_GAS,
+    nonce,
+    ...fees
+  };
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    logger.info('Cancelling transaction', {nonce, address, attempt});
+
+    try {
+      return await signAndSend(transaction, signer, web3);
+    } catch (e) {
+      if (isNonceTooLow(e)) {
+        logger.info('Transaction was already mined, nothing to cancel', {nonce});
+        return undefined;
+      }
+
+      logger.warn('Failed to cancel transaction', {nonce, attempt, error: e});
+
+      transaction = bumpFees(transaction, GAS_PRICE_ADJUSTMENT, maxFee);
+      await (new Promise(okay => setTimeout(okay, SLEEP_DURATION)));
+    }
+  }
+
+  throw new Error(`Failed to cancel transaction with nonce ${nonce} after ${retries} retries`);
+}
+
+async function signAndSend(transaction: TransactionConfig, signer: Signer | string, web3: Web3, nonceManager?: NonceManager): Promise<TransactionReceipt> {
   let signedTransaction =
-    await web3.eth.accounts.signTransaction(transaction, signerKey);
+    await toSigner(signer).signTransaction(transaction, web3);
+
+  if (nonceManager && signedTransaction.transactionHash) {
+    nonceManager.track(Number(transaction.nonce), signedTransaction.transactionHash);
+  }
 
-  return web3.eth.sendSignedTransaction(signedTransaction.rawTransaction || '');
+  return web3.eth.sendSignedTransaction(signedTransaction.rawTransaction);
 }
 
 export {
+  cancelTransaction,
   postWithRetries,
   signAndSend
 }
@@ -1,183 +1,480 @@
 import { postWithRetries } from './post_with_retries';
 import fetch from 'node-fetch';
 import Web3 from 'web3';
-import { TransactionConfig } from 'web3-core';
+import { TransactionConfig, TransactionReceipt } from 'web3-core';
 import {
   getDataAddress,
   getPreviousPrice,
-  getSourceAddress
+  getPreviousPrices,
+  getPreviousTimestamp,
+  getPreviousTimestamps,
+  getSourceAddress,
+  getSourceAddresses
 } from './prev_price';
 import { BigNumber as BN } from 'bignumber.js';
-import { CoinbaseConfig, readCoinbasePayload } from './sources/coinbase';
-import { decodeMessage, encode, zip } from './util';
-import { mockUniswapTokenPairs } from './mainnet_uniswap_mocker';
+import { describeSource, getSource, parseSource } from './sources';
+import { aggregateFeedItems, QuorumOptions } from './aggregate';
+import { isSignedByReporter } from './signatures';
+import { allSuccesses, decodeMessage, zip } from './util';
+import { encodePostPrices } from './contracts';
+import { MainnetState, mainnetState, mockUniswapTokenPairs } from './mainnet_uniswap_mocker';
+import { FeeModel, feeCap, fetchFees, fetchGasPrice, GasStrategy } from './fees';
+import { logger } from './logger';
+import { DryRunReport, printDryRun, simulate } from './dry_run';
+import { checkGuarded, decodePriceEvents, GuardedPolicy, PriceEvent, summarizeEvents, SymbolEvents } from './events';
+import { metrics, runLabels } from './metrics';
+import { splitBatches } from './batches';
+import { ReadOptions } from './multicall';
+import { inDeltaRange, inPolicyRange, PriceDeltas, pricePolicy, PricePolicy, relativeDelta } from './policy';
+import { Signer, toSigner } from './signer';
 
-const GAS_PRICE_API = 'https://api.compound.finance/api/gas_prices/get_gas_price';
-const DEFAULT_GAS_PRICE = 3_000_000_000; // use 3 gwei if api is unreachable for some reason
+export { fetchGasPrice, inDeltaRange };
+
+export interface PosterOptions {
+  // Max number of seconds an asset's on-chain price may go without an update,
+  // even when the new price is within the asset's delta
+  heartbeats?: {[symbol: string]: number}
+  // Max number of seconds old a message may be when it is posted, by symbol
+  maxMessageAges?: {[symbol: string]: number}
+  // Max number of seconds a message may be timestamped in the future, by symbol
+  maxClockSkews?: {[symbol: string]: number}
+  // Whether to send EIP-1559 or legacy transactions, defaults to EIP-1559
+  feeModel?: FeeModel
+  // How fees are picked, defaults to the fee history, or to `gasPrice` and then
+  // the gas price API for legacy transactions
+  gasStrategy?: GasStrategy
+  // When set, prices from multiple sources are only posted if enough of them agree
+  quorum?: QuorumOptions
+  // Min number of sources that need to be read successfully for a run to post
+  // anything, defaults to all of them
+  minHealthySources?: number
+  // When set, messages not signed by one of these reporters are dropped before
+  // anything is read from or sent to the chain
+  reporters?: string[]
+  // Max gas a single transaction may use, assets are split across several
+  // transactions beyond it. Defaults to the gas limit.
+  maxGasPerTx?: number
+  // How on-chain prices are read, one at a time unless a batching mode is set
+  reads?: ReadOptions
+  // Where the testnet world mirrors uniswap pairs from, defaults to the
+  // mainnet node at `DEFAULT_MAINNET_WEB3_PROVIDER`
+  mainnet?: MainnetState
+  // Whether a run fails or only warns when the view guards a posted price
+  // against its anchor, defaults to warn
+  onGuarded?: GuardedPolicy
+  // When set, the transaction is simulated against the view instead of being
+  // signed and sent, and the testnet world is not mocked
+  dryRun?: boolean
+}
+
+export interface PosterResult {
+  // Payloads read from the sources, unset when the run doesn't read sources
+  payloads?: OpenPriceFeedPayload[]
+  // Sources that could not be read during the run
+  failedSources: string[]
+  // What was decided for each supported message, and why
+  decisions: Decision[]
+  // Number of messages dropped during the run, by reason
+  skipped: SkipCounts
+  // Transactions sent during the run, in the order they were sent
+  transactions?: PostedTransaction[]
+  // What the transactions did to each symbol, from their events
+  events?: {[symbol: string]: SymbolEvents}
+  // Simulations of the transactions a dry run would have sent, one per batch
+  dryRun?: DryRunReport[]
+}
+
+// A run that failed after it had sent transactions, with what it did up to then
+export interface PosterError extends Error {
+  result?: PosterResult
+}
+
+export interface Decision {
+  symbol: string
+  price: number
+  // Reporter and on-chain price, for messages that got far enough to look them up
+  source?: string
+  prev?: number
+  post: boolean
+  // Why the message is posted (`delta` or `heartbeat`) or dropped
+  reason: UpdateTrigger | SkipReason
+}
+
+export interface PostedTransaction {
+  symbols: string[]
+  receipt: TransactionReceipt
+  // Price events decoded from the receipt logs
+  events?: PriceEvent[]
+}
+
+export type SkipCounts = {[reason: string]: number};
+
+export interface FetchResult {
+  payloads: OpenPriceFeedPayload[]
+  failedSources: string[]
+}
+
+type UpdateTrigger = 'delta' | 'heartbeat';
+type TimestampError = 'stale' | 'future';
+// `no_failover` is only used when poking a `UniswapAnchoredView`, see `pokeFailedOverPrices`
+type SkipReason = TimestampError | 'unknown_reporter' | 'no_quorum' | 'in_delta' | 'min_interval' | 'disabled' | 'no_failover';
 
 export async function main(
     sources: string[],
-    senderKey: string,
+    signer: Signer | string,
     viewAddress: string,
     functionSig: string,
     gas: number,
     gasPrice: number | undefined,
-    deltas,
+    deltas: PriceDeltas,
     assets: string[],
     mocked_world: boolean,
     pairs,
-    web3: Web3) {
+    web3: Web3,
+    options: PosterOptions = {}): Promise<PosterResult> {
 
-  const payloads = await fetchPayloads(sources);
-  const feedItems = await filterPayloads(payloads, viewAddress, assets, deltas, web3);
+  const { payloads, failedSources } = await fetchSources(sources, fetch, options.minHealthySources);
+  const decisions: Decision[] = [];
+  const feedItems = await filterPayloads(payloads, viewAddress, assets, deltas, web3, options, decisions);
+  const skipped = countSkipped(decisions);
+  const maxGas = options.maxGasPerTx || gas;
+  const estimateGas = (items: OpenPriceFeedItem[]) => web3.eth.estimateGas({data: buildTrxData(items, functionSig), to: viewAddress});
 
-  if (feedItems.length > 0) {
-    // If gas price was not defined, fetch average one from Compound API
-    if (!gasPrice) {
-      gasPrice = await fetchGasPrice();
+  if (feedItems.length > 0 && options.dryRun) {
+    // a post that can't be split is simulated whole, which reports why it reverts
+    const batches = await splitBatches(feedItems, maxGas, estimateGas).catch(e => {
+      logger.warn('Dry run could not split post into transactions', {error: e});
+      return [{items: feedItems, gas: maxGas}];
+    });
+
+    const dryRun: DryRunReport[] = [];
+    for (const batch of batches) {
+      const trx = <TransactionConfig>{
+        data: buildTrxData(batch.items, functionSig),
+        to: viewAddress,
+        from: toSigner(signer).address
+      };
+      dryRun.push(await simulate(trx, functionSig, web3));
     }
+    printDryRun(dryRun, decisions);
+
+    return { payloads, failedSources, decisions, skipped, dryRun };
+  }
+
+  if (feedItems.length > 0) {
+    const fees = await fetchFees(web3, options.feeModel || 'eip1559', gasPrice, {
+      strategy: options.gasStrategy,
+      deviation: deltaMultiple(decisions, deltas)
+    });
+    const maxFee = feeCap(options.feeModel || 'eip1559', gasPrice, options.gasStrategy);
 
     // mock uniswap mainnet pairs price
     if (mocked_world) {
       // Mock only pairs that will be updated
       const updateAssets = feedItems.map(item => item.symbol)
-      await mockUniswapTokenPairs(updateAssets, senderKey, pairs, gas, gasPrice, web3);
+      await mockUniswapTokenPairs(updateAssets, signer, pairs, gas, fees, web3, options.mainnet || mainnetState());
     }
 
-    const trxData = buildTrxData(feedItems, functionSig);
-    const gasEstimate = await web3.eth.estimateGas({data: trxData, to: viewAddress});
-    // Make gas estimate safer by 50% adjustment
-    const gastEstimateAdjusted = Math.floor(gasEstimate * 1.5);
-    const trx = <TransactionConfig>{
-      data: trxData,
-      to: viewAddress,
-      gasPrice: gasPrice,
-      gas: gastEstimateAdjusted
-    };
-
-    console.log(`Posting...`);
-    console.log(feedItems);
-
-    return await postWithRetries(trx, senderKey, web3);
+    const batches = await splitBatches(feedItems, maxGas, estimateGas);
+
+    const transactions: PostedTransaction[] = [];
+    try {
+      for (const batch of batches) {
+        const trx = <TransactionConfig>{
+          data: buildTrxData(batch.items, functionSig),
+          to: viewAddress,
+          gas: batch.gas,
+          ...fees
+        };
+
+        logger.info('Posting', {items: batch.items.map(({source, symbol, price, timestamp}) => ({source, symbol, price, timestamp}))});
+
+        const receipt = await postWithRetries(trx, signer, web3, undefined, undefined, undefined, maxFee);
+        const symbols = [...new Set(batch.items.map(({symbol}) => symbol))];
+        transactions.push({symbols, receipt, events: decodePriceEvents(receipt.logs || [], symbols, web3)});
+      }
+    } catch (e) {
+      // earlier batches are on-chain, so they are kept for the health log and metrics
+      throw withResult(e, {payloads, failedSources, decisions, skipped, transactions, events: analyzeEvents(transactions)});
+    }
+
+    const events = analyzeEvents(transactions);
+
+    return checkGuardedResult({ payloads, failedSources, decisions, skipped, transactions, events }, options.onGuarded);
+  }
+
+  if (options.dryRun) {
+    printDryRun([], decisions);
+  }
+
+  return { payloads, failedSources, decisions, skipped };
+}
+
+// Attaches what a run did before it failed to its error
+export function withResult(e, result: PosterResult): PosterError {
+  const error: PosterError = e instanceof Error ? e : new Error(String(e));
+  error.result = result;
+
+  return error;
+}
+
+// Sums up the events of a run's transactions by symbol
+export function analyzeEvents(transactions: PostedTransaction[]): {[symbol: string]: SymbolEvents} {
+  const events = summarizeEvents(transactions.flatMap(({events}) => events || []));
+  logger.info('Transaction events', {events});
+
+  return events;
+}
+
+// Warns about or fails on the run's guarded prices according to `policy`. A
+// failed run keeps its result, so its guarded prices still reach the health log
+// and its transactions the metrics.
+export function checkGuardedResult(result: PosterResult, policy?: GuardedPolicy): PosterResult {
+  try {
+    checkGuarded(result.events || {}, policy);
+  } catch (e) {
+    throw withResult(e, result);
   }
+
+  return result;
 }
 
 export async function filterPayloads(
     payloads: OpenPriceFeedPayload[],
     viewAddress: string,
     supportedAssets: string[],
-    deltas,
-    web3: Web3): Promise<OpenPriceFeedItem[]> {
+    deltas: PriceDeltas,
+    web3: Web3,
+    options: PosterOptions = {},
+    decisions: Decision[] = []): Promise<OpenPriceFeedItem[]> {
 
+  const heartbeats = options.heartbeats || {};
+  const maxMessageAges = options.maxMessageAges || {};
+  const maxClockSkews = options.maxClockSkews || {};
+  const now = Date.now() / 1000;
   const dataAddress = await getDataAddress(viewAddress, web3);
 
-  let filteredFeedItems = await Promise.all(payloads.map(async payload => {
-    return await Promise.all(zip(payload.messages, payload.signatures).map(([message, signature]) => {
-        const {
-          dataType,
-          timestamp,
-          symbol,
-          price
-        } = decodeMessage(message, web3)
-
-        return {
-          message,
-          signature,
-          dataType,
-          timestamp,
-          symbol: symbol.toUpperCase(),
-          price: Number(price)
-        };
-      }).filter(({message, signature, symbol}) => {
-        return supportedAssets.includes(symbol.toUpperCase());
-      }).map(async (feedItem) => {
-        const source = await getSourceAddress(dataAddress, feedItem.message, feedItem.signature, web3);
-        const prev = await getPreviousPrice(source, feedItem.symbol, dataAddress, web3);
-
-        return {
-          ...feedItem,
-          source,
-          prev: Number(prev) / 1e6
-        };
-      })).then((feedItems) => {
-        return feedItems.filter(({message, signature, symbol, price, prev}) => {
-          return !inDeltaRange(deltas[symbol], price, prev);
-        });
-      });
-  }));
+  const decodedFeedItems = payloads.map(payload => {
+    return zip(payload.messages, payload.signatures).map(([message, signature]) => {
+      const {
+        dataType,
+        timestamp,
+        symbol,
+        price
+      } = decodeMessage(message, web3)
+
+      return {
+        message,
+        signature,
+        dataType,
+        timestamp,
+        symbol: symbol.toUpperCase(),
+        price: Number(price)
+      };
+    }).filter(({message, signature, symbol}) => {
+      return supportedAssets.includes(symbol.toUpperCase());
+    }).filter(({symbol, price}) => {
+      const disabled = pricePolicy(deltas[symbol]).disabled === true;
+      if (disabled) {
+        decisions.push({symbol, price, post: false, reason: 'disabled'});
+      }
+
+      return !disabled;
+    }).filter(({message, signature, symbol, price}) => {
+      if (!options.reporters) {
+        return true;
+      }
+
+      const [allowed, signer] = isSignedByReporter(message, signature, options.reporters, web3);
+      if (!allowed) {
+        logger.warn('Dropping message signed by unknown reporter', {symbol, signer: signer || 'invalid signature'});
+        decisions.push({symbol, price, post: false, reason: 'unknown_reporter'});
+      }
 
-  let feedItems = filteredFeedItems.flat();
+      return allowed;
+    }).filter(({symbol, price, timestamp}) => {
+      const error = checkMessageTimestamp(Number(timestamp), maxMessageAges[symbol], maxClockSkews[symbol], now);
+      if (error) {
+        logger.warn(`Dropping ${error} message`, {symbol, timestamp, now: Math.floor(now), max_age: maxMessageAges[symbol], max_clock_skew: maxClockSkews[symbol]});
+        decisions.push({symbol, price, post: false, reason: error});
+      }
 
-  feedItems
-    .forEach(({source, symbol, price, prev}) => {
-      console.log(`Setting Price: source=${source}, symbol=${symbol}, price=${price}, prev_price=${prev}`);
+      return error === undefined;
     });
+  });
+
+  // Only keep the messages that enough sources agree on
+  const agreedFeedItems = options.quorum ? aggregateFeedItems(decodedFeedItems, options.quorum) : decodedFeedItems;
+  const agreed = new Set(agreedFeedItems.flat());
+  decodedFeedItems.flat().filter(feedItem => !agreed.has(feedItem)).forEach(({symbol, price}) => {
+    decisions.push({symbol, price, post: false, reason: 'no_quorum'});
+  });
+
+  const feedItems = await withPreviousPrices(agreedFeedItems.flat(), dataAddress, web3, options.reads);
+  const prevTimestamps = await previousTimestamps(feedItems.filter(({symbol, price, prev}) => {
+    return needsTimestamp(pricePolicy(deltas[symbol]), heartbeats[symbol], price, prev);
+  }), dataAddress, web3, options.reads);
+
+  return feedItems.filter(feedItem => {
+    const {source, symbol, price, prev} = feedItem;
+    const log = logger.child({symbol});
+    const trigger = updateTrigger(feedItem, pricePolicy(deltas[symbol]), heartbeats[symbol], prevTimestamps.get(feedItem));
+    const post = trigger === 'delta' || trigger === 'heartbeat';
 
-  return feedItems;
+    if (post) {
+      log.info('Setting price', {source, price, prev_price: prev, trigger});
+    } else if (trigger === 'min_interval') {
+      log.info('Holding back price until its min interval has passed', {source, price, prev_price: prev});
+    }
+    decisions.push({symbol, price, source, prev, post, reason: trigger});
+
+    return post;
+  });
 }
 
-// Checks if new price is less than delta percent different form the old price
-// Note TODO: price here is uh... a number that needs to be scaled by 1e6?
-export function inDeltaRange(delta: number, price: number, prevPrice: number) {
-  // Always update prices if delta is set to 0 or delta is not within expected range [0..100]%
-  if (delta <= 0 || delta > 100) {
-    return false
-  };
+// Looks up the reporter of each message and its on-chain price, in two batches
+// when a batching mode is set, or two calls per message otherwise
+async function withPreviousPrices(
+    feedItems: Omit<OpenPriceFeedItem, 'source' | 'prev'>[],
+    dataAddress: string,
+    web3: Web3,
+    reads: ReadOptions = {}): Promise<OpenPriceFeedItem[]> {
 
-  const minDifference = new BN(prevPrice).multipliedBy(delta).dividedBy(100);
-  const difference = new BN(prevPrice).minus(new BN(price)).abs();
+  if (!reads.mode || reads.mode === 'none') {
+    return await Promise.all(feedItems.map(async (feedItem) => {
+      const source = await getSourceAddress(dataAddress, feedItem.message, feedItem.signature, web3);
+      const prev = await getPreviousPrice(source, feedItem.symbol, dataAddress, web3);
+
+      return {...feedItem, source, prev: Number(prev) / 1e6};
+    }));
+  }
 
-  return difference.isLessThanOrEqualTo(minDifference);
+  const sources = await getSourceAddresses(dataAddress, feedItems, web3, reads);
+  const prevs = await getPreviousPrices(dataAddress, zip(feedItems, sources).map(([{symbol}, source]) => ({source, symbol})), web3, reads);
+
+  return feedItems.map((feedItem, i) => ({...feedItem, source: sources[i], prev: Number(prevs[i]) / 1e6}));
 }
 
-export async function fetchPayloads(sources: string[], fetchFn=fetch): Promise<OpenPriceFeedPayload[]> {
-  function parse(json): object {
-    let result;
-    try {
-      result = JSON.parse(json);
-    } catch (e) {
-      console.error(`Error parsing source input: ${json}`);
-      throw e;
+// Looks up when the reporter of each item last posted its asset, in one batch
+// when a batching mode is set, or one call per item otherwise
+async function previousTimestamps(
+    feedItems: OpenPriceFeedItem[],
+    dataAddress: string,
+    web3: Web3,
+    reads: ReadOptions = {}): Promise<Map<OpenPriceFeedItem, number>> {
+
+  const timestamps = !reads.mode || reads.mode === 'none' ?
+    await Promise.all(feedItems.map(({source, symbol}) => getPreviousTimestamp(source, symbol, dataAddress, web3))) :
+    await getPreviousTimestamps(dataAddress, feedItems, web3, reads);
+
+  return new Map(feedItems.map((feedItem, i) => [feedItem, Number(timestamps[i])]));
+}
+
+// How many times its price delta the furthest moved asset being posted has
+// moved, leaving out assets that are always posted
+export function deltaMultiple(decisions: Decision[], deltas: PriceDeltas): number {
+  return decisions.filter(({post, prev}) => post && prev).reduce((multiple, {symbol, price, prev}) => {
+    const delta = relativeDelta(pricePolicy(deltas[symbol]), price, Number(prev));
+    if (delta === undefined || delta <= 0 || delta > 100) {
+      return multiple;
     }
-    if (!result['source']) {
-      throw new Error(`Source must include \`source\` field for ${json}`);
+
+    const moved = new BN(price).minus(Number(prev)).abs().dividedBy(Number(prev)).multipliedBy(100).dividedBy(delta);
+
+    return Math.max(multiple, moved.toNumber());
+  }, 0);
+}
+
+export function countSkipped(decisions: Decision[]): SkipCounts {
+  return decisions.filter(({post}) => !post).reduce((skipped, {reason}) => {
+    return {...skipped, [reason]: (skipped[reason] || 0) + 1};
+  }, {});
+}
+
+// The on-chain timestamp is only looked up for assets that have a heartbeat
+// configured, or that moved past their delta and have a min interval
+function needsTimestamp(policy: PricePolicy, heartbeat: number | undefined, price: number, prev: number): boolean {
+  return heartbeat !== undefined || (policy.minInterval !== undefined && !inPolicyRange(policy, price, prev));
+}
+
+// Decides whether a feed item should be posted, and why, `prevTimestamp` is
+// set for the items that need it, see `needsTimestamp`
+function updateTrigger(
+    feedItem: OpenPriceFeedItem,
+    policy: PricePolicy,
+    heartbeat: number | undefined,
+    prevTimestamp: number | undefined): UpdateTrigger | 'in_delta' | 'min_interval' {
+
+  if (!inPolicyRange(policy, feedItem.price, feedItem.prev)) {
+    if (policy.minInterval === undefined) {
+      return 'delta';
     }
-    return result;
+
+    return heartbeatExpired(policy.minInterval, Number(prevTimestamp)) ? 'delta' : 'min_interval';
   }
 
-  return await Promise.all(sources.map(async (sourceRaw) => {
-    let source = sourceRaw.includes('{') ? parse(sourceRaw) : sourceRaw;
-    let response;
+  if (heartbeat !== undefined && heartbeatExpired(heartbeat, Number(prevTimestamp))) {
+    return 'heartbeat';
+  }
 
-    try {
-      if (typeof(source) === 'string') {
-        response = await fetchFn(source);
-      } else if (source['source'] === 'coinbase') {
-        response = await readCoinbasePayload(<CoinbaseConfig>source, fetchFn);
-      }
+  return 'in_delta';
+}
+
+// Checks a message timestamp is neither older than `maxAge` nor further in the
+// future than `maxClockSkew`, either of which may be unset to skip its check
+export function checkMessageTimestamp(timestamp: number, maxAge: number | undefined, maxClockSkew: number | undefined, now: number = Date.now() / 1000): TimestampError | undefined {
+  if (maxAge !== undefined && now - timestamp > maxAge) {
+    return 'stale';
+  }
+
+  if (maxClockSkew !== undefined && timestamp - now > maxClockSkew) {
+    return 'future';
+  }
+
+  return undefined;
+}
+
+// Checks if the on-chain price is at least `heartbeat` seconds old
+export function heartbeatExpired(heartbeat: number, prevTimestamp: number, now: number = Date.now() / 1000) {
+  return now - prevTimestamp >= heartbeat;
+}
+
+export async function fetchPayloads(sources: string[], fetchFn=fetch, minHealthySources: number = sources.length): Promise<OpenPriceFeedPayload[]> {
+  return (await fetchSources(sources, fetchFn, minHealthySources)).payloads;
+}
+
+// Reads all sources, tolerating failures as long as at least `minHealthySources`
+// of them can be read
+export async function fetchSources(sources: string[], fetchFn=fetch, minHealthySources: number = sources.length): Promise<FetchResult> {
+  const configs = sources.map(parseSource);
 
-      return await response.json();
+  // why each source that could not be read failed
+  const failures = new Map<number, string>();
+  const payloads = await allSuccesses(configs.map(async (source, i) => {
+    try {
+      return await getSource(source.source).fetch(source, fetchFn);
     } catch (e) {
       // This is now just for some extra debugging messages
-      console.error(`Error Fetching Payload for ${JSON.stringify(source)}`);
-      if (response) {
-        console.debug({response});
-      }
-      console.error(e);
+      logger.error('Error fetching payload', {source: describeSource(source), error: e});
+      metrics.sourceFailures.inc(runLabels({source: describeSource(source)}));
+      failures.set(i, e.toString());
       throw e;
     }
   }));
-}
 
-export async function fetchGasPrice(fetchFn = fetch): Promise<number> {
-  try {
-    let response = await fetchFn(GAS_PRICE_API);
-    let prices = await response.json();
-    return Number(prices["average"]["value"]);
-  } catch (e) {
-    console.warn(`Failed to fetch gas price`, e);
-    return DEFAULT_GAS_PRICE;
+  const failed = configs.map((_, i) => i).filter(i => failures.has(i));
+  const failedSources = failed.map(i => describeSource(configs[i]));
+  const errors = failed.map(i => failures.get(i));
+
+  if (payloads.length < minHealthySources) {
+    throw new Error(`Only ${payloads.length} of ${sources.length} source(s) could be read, need ${minHealthySources}: failed_sources=${failedSources.join(', ')} errors=${errors.join('; ')}`);
   }
+
+  if (failedSources.length > 0) {
+    logger.warn('Continuing without failed sources', {read: payloads.length, sources: sources.length, failed_sources: failedSources});
+  }
+
+  return { payloads, failedSources };
 }
 
 export function buildTrxData(feedItems: OpenPriceFeedItem[], functionSig: string): string {  
@@ -185,8 +482,5 @@ export function buildTrxData(feedItems: OpenPriceFeedItem[], functionSig: string
   const signatures = feedItems.map(({signature}) => signature);
   const symbols = [...new Set(feedItems.map(({symbol}) => symbol.toUpperCase()))];
 
-  return encode(
-    functionSig,
-    [messages, signatures, symbols]
-  );
+  return encodePostPrices(functionSig, messages, signatures, symbols);
 }
@@ -1,32 +1,42 @@
 import Web3 from 'web3';
-import { read } from './util';
+import { openOraclePriceData, openOracleView, prepareCall } from './contracts';
+import { readAll, ReadOptions } from './multicall';
 
 export async function getPreviousPrice(sourceAddress: string, asset: string, dataAddress: string, web3: Web3) {
-  return await read(
-    dataAddress,
-    'getPrice(address,string)',
-    [sourceAddress, asset.toUpperCase()],
-    'uint256',
-    web3
-  );
+  return await openOraclePriceData(dataAddress, web3).getPrice(sourceAddress, asset.toUpperCase());
+}
+
+export async function getPreviousTimestamp(sourceAddress: string, asset: string, dataAddress: string, web3: Web3) {
+  const { timestamp } = await openOraclePriceData(dataAddress, web3).get(sourceAddress, asset.toUpperCase());
+
+  return timestamp;
 }
 
 export async function getDataAddress(viewAddress: string, web3: Web3) {
-  return await read(
-    viewAddress,
-    'priceData()',
-    [],
-    'address',
-    web3
-  );
+  return await openOracleView(viewAddress, web3).priceData();
 }
 
 export async function getSourceAddress(dataAddress: string, message: string, signature: string, web3 : Web3) {
-  return await read(
-    dataAddress,
-    'source(bytes,bytes)',
-    [message, signature],
-    'address',
-    web3
-  );
+  return await openOraclePriceData(dataAddress, web3).source(message, signature);
+}
+
+// Reporters that signed each message, read together, see `readAll`
+export async function getSourceAddresses(dataAddress: string, signed: {message: string, signature: string}[], web3: Web3, options: ReadOptions = {}): Promise<string[]> {
+  const calls = signed.map(({message, signature}) => prepareCall('OpenOraclePriceData', dataAddress, 'source', [message, signature]));
+
+  return (await readAll(calls, web3, options)).map(result => result[0]);
+}
+
+// When each reporter's asset was last posted on-chain, read together, see `readAll`
+export async function getPreviousTimestamps(dataAddress: string, keys: {source: string, symbol: string}[], web3: Web3, options: ReadOptions = {}): Promise<string[]> {
+  const calls = keys.map(({source, symbol}) => prepareCall('OpenOraclePriceData', dataAddress, 'get', [source, symbol.toUpperCase()]));
+
+  return (await readAll(calls, web3, options)).map(result => result[0]);
+}
+
+// On-chain prices of each reporter's asset, read together, see `readAll`
+export async function getPreviousPrices(dataAddress: string, keys: {source: string, symbol: string}[], web3: Web3, options: ReadOptions = {}): Promise<string[]> {
+  const calls = keys.map(({source, symbol}) => prepareCall('OpenOraclePriceData', dataAddress, 'getPrice', [source, symbol.toUpperCase()]));
+
+  return (await readAll(calls, web3, options)).map(result => result[0]);
 }
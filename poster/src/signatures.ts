@@ -0,0 +1,29 @@
+import Web3 from 'web3';
+
+// Recovers the address that signed a message, using the same scheme as `sign`
+// in the reporter SDK and `source` in the open oracle data contract: an
+// Ethereum signed message over the keccak256 hash of the message, with the
+// signature ABI-encoded as (bytes32 r, bytes32 s, uint8 v).
+export function recoverSigner(message: string, signature: string, web3: Web3): string {
+  const hash = web3.utils.keccak256(message);
+  const {
+    '0': r,
+    '1': s,
+    '2': v
+  } = web3.eth.abi.decodeParameters(['bytes32', 'bytes32', 'uint8'], signature);
+
+  return web3.eth.accounts.recover(hash, web3.utils.numberToHex(v), r, s);
+}
+
+// Checks a message was signed by one of the allowed reporters. Signatures that
+// can't be decoded are treated as unknown signers.
+export function isSignedByReporter(message: string, signature: string, reporters: string[], web3: Web3): [boolean, string | undefined] {
+  let signer;
+  try {
+    signer = recoverSigner(message, signature, web3);
+  } catch (e) {
+    return [false, undefined];
+  }
+
+  return [reporters.some(reporter => reporter.toLowerCase() === signer.toLowerCase()), signer];
+}
@@ -0,0 +1,195 @@
+import fs from 'fs';
+import fetch from 'node-fetch';
+import Web3 from 'web3';
+import Utils from 'web3-utils';
+import { TransactionConfig } from 'web3-core';
+import { addSecret } from './logger';
+
+export interface SignedTransaction {
+  rawTransaction: string
+  transactionHash: string
+}
+
+export interface Signer {
+  // Address transactions are sent from
+  address: string
+  signTransaction: (transaction: TransactionConfig, web3: Web3) => Promise<SignedTransaction>
+}
+
+// Signs with a private key held in memory
+export class LocalSigner implements Signer {
+  address: string;
+  private privateKey: string;
+
+  constructor(privateKey: string) {
+    this.privateKey = ensureHex(privateKey.trim(), 'private key');
+    this.address = new Web3().eth.accounts.privateKeyToAccount(this.privateKey).address;
+  }
+
+  async signTransaction(transaction: TransactionConfig, web3: Web3): Promise<SignedTransaction> {
+    const { rawTransaction, transactionHash } = await web3.eth.accounts.signTransaction(transaction, this.privateKey);
+
+    return { rawTransaction: rawTransaction || '', transactionHash: transactionHash || '' };
+  }
+}
+
+// Signs with an external signer, such as Clef or EthSigner, through its
+// `eth_signTransaction` JSON-RPC method, so that the key never leaves it
+export class RemoteSigner implements Signer {
+  address: string;
+  private url: string;
+  private fetchFn;
+
+  constructor(url: string, address: string, fetchFn = fetch) {
+    this.url = url;
+    this.address = address;
+    this.fetchFn = fetchFn;
+  }
+
+  async signTransaction(transaction: TransactionConfig, web3: Web3): Promise<SignedTransaction> {
+    const chainId = transaction.chainId !== undefined ? transaction.chainId : await web3.eth.getChainId();
+    const result = await remoteCall(this.url, 'eth_signTransaction', [toRpcTransaction({...transaction, from: this.address, chainId})], this.fetchFn);
+    // Clef returns `{raw, tx}`, other signers just the raw transaction
+    const rawTransaction = typeof result === 'string' ? result : result.raw;
+    if (!Utils.isHexStrict(rawTransaction)) {
+      throw new Error(`Remote signer at ${this.url} returned an invalid signed transaction`);
+    }
+
+    return { rawTransaction, transactionHash: Utils.keccak256(rawTransaction) };
+  }
+}
+
+export interface SignerOptions {
+  // Passphrase of an encrypted keystore, which may itself be `file:` or `env:`
+  passphrase?: string
+  // Account to sign with on a remote signer, defaults to its only account
+  address?: string
+}
+
+// Loads the signer for `--poster-key`, which may be a hex private key, or:
+//   file:<path>     a file holding a private key or an encrypted keystore
+//   env:<name>      an environment variable holding a private key
+//   keystore:<path> an encrypted keystore
+//   remote:<url>    a JSON-RPC endpoint serving `eth_signTransaction`
+export async function loadSigner(key: string, options: SignerOptions = {}, web3: Web3 = new Web3(), fetchFn = fetch): Promise<Signer> {
+  const remote = /^remote:(.+)$/.exec(key);
+  if (remote) {
+    const address = options.address || await remoteAccount(remote[1], fetchFn);
+    if (!Utils.isAddress(address)) {
+      throw new TypeError(`Remote signer address should be an address, got ${address}`);
+    }
+
+    return new RemoteSigner(remote[1], address, fetchFn);
+  }
+
+  const keystore = /^keystore:(.+)$/.exec(key);
+  const secret = keystore ? fs.readFileSync(keystore[1], 'utf8') : resolveSecret(key);
+  if (keystore || isKeystore(secret)) {
+    if (options.passphrase === undefined) {
+      throw new TypeError(`An encrypted keystore needs a passphrase, try --keystore-passphrase`);
+    }
+    const passphrase = resolveSecret(options.passphrase);
+    addSecret(passphrase);
+
+    const { privateKey } = web3.eth.accounts.decrypt(JSON.parse(secret), passphrase);
+    addSecret(privateKey);
+
+    return new LocalSigner(privateKey);
+  }
+
+  addSecret(secret.trim());
+  addSecret(secret.trim().replace(/^0x/, ''));
+
+  return new LocalSigner(secret);
+}
+
+// Wraps a raw private key, so callers may pass either
+export function toSigner(signer: Signer | string): Signer {
+  return typeof signer === 'string' ? new LocalSigner(signer) : signer;
+}
+
+// Reads a `file:<path>` or `env:<name>` value, or returns the value as is
+export function resolveSecret(value: string): string {
+  const file = /^file:(.+)$/.exec(value);
+  if (file) {
+    return fs.readFileSync(file[1], 'utf8').trim();
+  }
+
+  const env = /^env:(.+)$/.exec(value);
+  if (env) {
+    const secret = process.env[env[1]];
+    if (secret === undefined) {
+      throw new TypeError(`Environment variable ${env[1]} is not set`);
+    }
+
+    return secret.trim();
+  }
+
+  return value;
+}
+
+function isKeystore(secret: string): boolean {
+  try {
+    const json = JSON.parse(secret);
+
+    return typeof json === 'object' && json !== null && (json.crypto !== undefined || json.Crypto !== undefined);
+  } catch (e) {
+    return false;
+  }
+}
+
+async function remoteAccount(url: string, fetchFn): Promise<string> {
+  const accounts: string[] = await remoteCall(url, 'eth_accounts', [], fetchFn);
+  if (accounts.length !== 1) {
+    throw new TypeError(`Remote signer at ${url} has ${accounts.length} accounts, pick one with --signer-address`);
+  }
+
+  return accounts[0];
+}
+
+async function remoteCall(url: string, method: string, params: any[], fetchFn): Promise<any> {
+  const response = await fetchFn(url, {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify({jsonrpc: '2.0', id: 1, method, params})
+  });
+  const { result, error } = await response.json();
+  if (error) {
+    throw new Error(`Remote signer at ${url} failed ${method}: ${error.message}`);
+  }
+
+  return result;
+}
+
+// JSON-RPC transactions have hex quantities, and an explicit type for EIP-1559
+function toRpcTransaction(transaction: TransactionConfig): object {
+  const quantity = (value) => value === undefined ? undefined : Utils.numberToHex(value.toString());
+
+  return {
+    from: transaction.from,
+    to: transaction.to,
+    data: transaction.data,
+    value: quantity(transaction.value || 0),
+    gas: quantity(transaction.gas),
+    gasPrice: quantity(transaction.gasPrice),
+    maxFeePerGas: quantity(transaction.maxFeePerGas),
+    maxPriorityFeePerGas: quantity(transaction.maxPriorityFeePerGas),
+    nonce: quantity(transaction.nonce),
+    chainId: quantity(transaction.chainId),
+    ...(transaction.maxFeePerGas !== undefined ? {type: '0x2'} : {})
+  };
+}
+
+function ensureHex(val: string, type: string): string {
+  if (Utils.isHexStrict(val)) {
+    return val;
+  }
+
+  const val0x = `0x${val}`;
+  if (Utils.isHexStrict(val0x)) {
+    return val0x;
+  }
+
+  // The value itself is left out, as it may be a mistyped key
+  throw new Error(`Invalid hex for ${type}`);
+}
@@ -1,7 +1,7 @@
 import crypto from 'crypto';
+import { SourceAdapter, SourceConfig, requireString } from './registry';
 
-export interface CoinbaseConfig {
-  source: string
+export interface CoinbaseConfig extends SourceConfig {
   endpoint: string
   api_key_id: string
   api_secret: string
@@ -36,3 +36,19 @@ export async function readCoinbasePayload(config: CoinbaseConfig, fetchFn) {
     headers: headers
   });
 }
+
+export const coinbaseSource: SourceAdapter<CoinbaseConfig> = {
+  validate: (config) => ({
+    source: config.source,
+    endpoint: requireString(config, 'endpoint'),
+    api_key_id: requireString(config, 'api_key_id'),
+    api_secret: requireString(config, 'api_secret'),
+    api_passphrase: requireString(config, 'api_passphrase')
+  }),
+
+  fetch: async (config, fetchFn) => {
+    const response = await readCoinbasePayload(config, fetchFn);
+
+    return await response.json();
+  }
+};
@@ -0,0 +1,19 @@
+import fs from 'fs';
+import { SourceAdapter, SourceConfig, requireString } from './registry';
+
+export interface FileConfig extends SourceConfig {
+  path: string
+}
+
+// A payload saved to disk, e.g. a recorded reporter response. The file is
+// re-read on every run so it can be replaced while the poster is running.
+export const fileSource: SourceAdapter<FileConfig> = {
+  validate: (config) => ({
+    source: config.source,
+    path: requireString(config, 'path')
+  }),
+
+  fetch: async (config, _fetchFn) => {
+    return JSON.parse(await fs.promises.readFile(config.path, 'utf8'));
+  }
+};
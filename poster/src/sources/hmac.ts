@@ -0,0 +1,86 @@
+import crypto from 'crypto';
+import { URL } from 'url';
+import { SourceAdapter, SourceConfig, optionalString, requireOneOf, requireString } from './registry';
+
+export interface HmacConfig extends SourceConfig {
+  endpoint: string
+  api_key: string
+  api_secret: string
+  api_passphrase?: string
+  // How `api_secret` is encoded
+  secret_encoding: 'base64' | 'hex' | 'utf8'
+  // How the timestamp is formatted, both in its header and in the signed prehash
+  timestamp_format: 'seconds' | 'milliseconds' | 'iso'
+  key_header: string
+  signature_header: string
+  timestamp_header: string
+  passphrase_header: string
+}
+
+// An endpoint authenticated with an HMAC-SHA256 signature over the timestamp,
+// method and request path, as used by most exchange APIs. Coinbase-style
+// endpoints under other header names, e.g. OKX with `OK-ACCESS-*` headers and
+// `iso` timestamps, can be read by configuring the header names and formats.
+export const hmacSource: SourceAdapter<HmacConfig> = {
+  validate: (config) => {
+    const validated = {
+      source: config.source,
+      endpoint: requireString(config, 'endpoint'),
+      api_key: requireString(config, 'api_key'),
+      api_secret: requireString(config, 'api_secret'),
+      api_passphrase: config['api_passphrase'] === undefined ? undefined : requireString(config, 'api_passphrase'),
+      secret_encoding: requireOneOf(config, 'secret_encoding', ['base64', 'hex', 'utf8'], 'base64'),
+      timestamp_format: requireOneOf(config, 'timestamp_format', ['seconds', 'milliseconds', 'iso'], 'seconds'),
+      key_header: optionalString(config, 'key_header', 'ACCESS-KEY'),
+      signature_header: optionalString(config, 'signature_header', 'ACCESS-SIGN'),
+      timestamp_header: optionalString(config, 'timestamp_header', 'ACCESS-TIMESTAMP'),
+      passphrase_header: optionalString(config, 'passphrase_header', 'ACCESS-PASSPHRASE')
+    };
+
+    try {
+      new URL(validated.endpoint);
+    } catch (e) {
+      throw new TypeError(`Source \`${config.source}\` requires a valid \`endpoint\` url, got \`${validated.endpoint}\``);
+    }
+
+    return validated;
+  },
+
+  fetch: async (config, fetchFn) => {
+    const response = await fetchFn(config.endpoint, {
+      headers: hmacHeaders(config, new Date())
+    });
+
+    return await response.json();
+  }
+};
+
+export function hmacHeaders(config: HmacConfig, now: Date): {[header: string]: string} {
+  const method = 'GET';
+  const url = new URL(config.endpoint);
+  const timestamp = formatTimestamp(config.timestamp_format, now);
+
+  const key = Buffer.from(config.api_secret, config.secret_encoding);
+  const signature = crypto.createHmac('sha256', key)
+    .update(timestamp + method + url.pathname + url.search)
+    .digest('base64');
+
+  return {
+    [config.key_header]: config.api_key,
+    [config.signature_header]: signature,
+    [config.timestamp_header]: timestamp,
+    ...(config.api_passphrase ? {[config.passphrase_header]: config.api_passphrase} : {}),
+    'Content-Type': 'application/json'
+  };
+}
+
+function formatTimestamp(format: HmacConfig['timestamp_format'], now: Date): string {
+  switch (format) {
+    case 'iso':
+      return now.toISOString();
+    case 'milliseconds':
+      return String(now.getTime());
+    default:
+      return String(Math.floor(now.getTime() / 1000));
+  }
+}
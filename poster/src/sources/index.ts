@@ -0,0 +1,19 @@
+import { coinbaseSource } from './coinbase';
+import { fileSource } from './file';
+import { hmacSource } from './hmac';
+import { urlSource } from './url';
+import { registerSource } from './registry';
+
+registerSource('url', urlSource);
+registerSource('coinbase', coinbaseSource);
+registerSource('hmac', hmacSource);
+registerSource('file', fileSource);
+
+export {
+  SourceAdapter,
+  SourceConfig,
+  describeSource,
+  getSource,
+  parseSource,
+  registerSource
+} from './registry';
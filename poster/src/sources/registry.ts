@@ -0,0 +1,83 @@
+import { logger } from '../logger';
+
+export interface SourceConfig {
+  // Name of the adapter the source is read with
+  source: string
+}
+
+export interface SourceAdapter<C extends SourceConfig> {
+  // Checks a parsed source config, throwing on missing or mistyped fields
+  validate: (config: SourceConfig) => C
+  // Reads a payload of signed messages from the source
+  fetch: (config: C, fetchFn) => Promise<OpenPriceFeedPayload>
+}
+
+const adapters: {[name: string]: SourceAdapter<any>} = {};
+
+export function registerSource<C extends SourceConfig>(name: string, adapter: SourceAdapter<C>) {
+  adapters[name] = adapter;
+}
+
+export function getSource(name: string): SourceAdapter<any> {
+  const adapter = adapters[name];
+  if (!adapter) {
+    throw new Error(`Unknown source \`${name}\`, expected one of: ${Object.keys(adapters).join(', ')}`);
+  }
+
+  return adapter;
+}
+
+// Parses and validates a source given on the command line. A plain URL is read
+// with the `url` adapter, anything else must be a JSON-encoded config naming
+// its adapter in the `source` field.
+export function parseSource(sourceRaw: string): SourceConfig {
+  if (!sourceRaw.includes('{')) {
+    return getSource('url').validate(<SourceConfig>{source: 'url', url: sourceRaw});
+  }
+
+  let config;
+  try {
+    config = JSON.parse(sourceRaw);
+  } catch (e) {
+    logger.error('Error parsing source input', {source: sourceRaw, error: e});
+    throw e;
+  }
+  if (!config['source']) {
+    throw new Error(`Source must include \`source\` field for ${sourceRaw}`);
+  }
+
+  return getSource(config['source']).validate(config);
+}
+
+// Identifies a source in logs without its credentials
+export function describeSource(config: SourceConfig): string {
+  const location = config['url'] || config['endpoint'] || config['path'];
+
+  return location ? `${config.source}:${location}` : config.source;
+}
+
+export function requireString(config: SourceConfig, field: string): string {
+  const value = config[field];
+  if (typeof value !== 'string' || value === '') {
+    throw new TypeError(`Source \`${config.source}\` requires a string \`${field}\` field`);
+  }
+
+  return value;
+}
+
+export function optionalString(config: SourceConfig, field: string, defaultValue: string): string {
+  if (config[field] === undefined) {
+    return defaultValue;
+  }
+
+  return requireString(config, field);
+}
+
+export function requireOneOf<T extends string>(config: SourceConfig, field: string, values: T[], defaultValue: T): T {
+  const value = config[field] === undefined ? defaultValue : config[field];
+  if (!values.includes(value)) {
+    throw new TypeError(`Source \`${config.source}\` field \`${field}\` must be one of: ${values.join(', ')}`);
+  }
+
+  return value;
+}
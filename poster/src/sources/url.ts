@@ -0,0 +1,19 @@
+import { SourceAdapter, SourceConfig, requireString } from './registry';
+
+export interface UrlConfig extends SourceConfig {
+  url: string
+}
+
+// A reporter serving open oracle payloads as json, e.g. the reporter SDK's express endpoint
+export const urlSource: SourceAdapter<UrlConfig> = {
+  validate: (config) => ({
+    source: config.source,
+    url: requireString(config, 'url')
+  }),
+
+  fetch: async (config, fetchFn) => {
+    const response = await fetchFn(config.url);
+
+    return await response.json();
+  }
+};
@@ -0,0 +1,166 @@
+import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
+import { TransactionConfig } from 'web3-core';
+import { GAS_ESTIMATE_MULTIPLIER } from './batches';
+import { revertReason, TokenConfig, uniswapAnchoredView, UniswapAnchoredView, uniswapV3Pool } from './contracts';
+import { decodePriceEvents } from './events';
+import { feeCap, fetchFees } from './fees';
+import { logger } from './logger';
+import { mainnetState, mockUniswapV3Pools } from './mainnet_uniswap_mocker';
+import { inPolicyRange, PriceDeltas, pricePolicy } from './policy';
+import { postWithRetries } from './post_with_retries';
+import { analyzeEvents, checkGuardedResult, countSkipped, Decision, deltaMultiple, PosterOptions, PosterResult, PostedTransaction, withResult } from './poster';
+import { Signer, toSigner } from './signer';
+
+// Prices in the view and from anchors have 6 decimals
+const PRICE_SCALE = 1e6;
+const EXP_SCALE = new BigNumber(1e18);
+const ETH_BASE_UNIT = new BigNumber(1e18);
+
+export interface PokeOptions extends PosterOptions {
+  // Gas price in wei, which legacy pokes are sent at and caps EIP-1559 fees,
+  // like the gas price of `main`
+  gasPrice?: number
+  // Mirrors mainnet V3 pools into the mock pools anchoring a testnet view
+  // before reading anchors, with the gas limit of each mocking transaction
+  testnetWorld?: {pairs, gas: number}
+}
+
+// Keeps the prices of failed over assets in a `UniswapAnchoredView` in line
+// with their anchors. Reported prices reach that view through Chainlink
+// validators rather than the poster, but once an asset is failed over its price
+// only moves when someone calls `pokeFailedOverPrice`. This pokes every failed
+// over asset whose anchor has moved past its delta from the stored price.
+export async function pokeFailedOverPrices(
+    signer: Signer | string,
+    viewAddress: string,
+    deltas: PriceDeltas,
+    assets: string[],
+    web3: Web3,
+    options: PokeOptions = {}): Promise<PosterResult> {
+
+  const view = uniswapAnchoredView(viewAddress, web3);
+
+  // anchors are read from the mock pools, so they are mirrored first, along
+  // with the ETH pool every other anchor is converted by
+  if (options.testnetWorld && !options.dryRun) {
+    const fees = await fetchFees(web3, options.feeModel || 'eip1559', options.gasPrice, {strategy: options.gasStrategy});
+    const { pairs, gas } = options.testnetWorld;
+    const pools = [...new Set(['ETH', ...assets.map(asset => asset.toUpperCase())])];
+    await mockUniswapV3Pools(pools, signer, pairs, Number(await view.anchorPeriod()), gas, fees, web3, options.mainnet || mainnetState());
+  }
+
+  const anchors = anchorReader(view, web3);
+  const decisions: Decision[] = [];
+
+  for (const asset of assets) {
+    const symbol = asset.toUpperCase();
+    const log = logger.child({symbol});
+    const policy = pricePolicy(deltas[symbol]);
+    const { price, failoverActive } = await view.prices(symbolHash(symbol));
+    const prev = Number(price) / PRICE_SCALE;
+
+    if (policy.disabled) {
+      decisions.push({symbol, price: prev, prev, post: false, reason: 'disabled'});
+      continue;
+    }
+    if (!failoverActive) {
+      decisions.push({symbol, price: prev, prev, post: false, reason: 'no_failover'});
+      continue;
+    }
+
+    const anchor = (await anchors(symbol)).toNumber() / PRICE_SCALE;
+    const post = !inPolicyRange(policy, anchor, prev);
+    if (post) {
+      log.info('Poking failed over price', {anchor_price: anchor, prev_price: prev});
+    }
+    decisions.push({symbol, price: anchor, prev, post, reason: post ? 'delta' : 'in_delta'});
+  }
+
+  const skipped = countSkipped(decisions);
+  const symbols = decisions.filter(({post}) => post).map(({symbol}) => symbol);
+  if (symbols.length === 0) {
+    return { failedSources: [], decisions, skipped };
+  }
+
+  if (options.dryRun) {
+    for (const symbol of symbols) {
+      const log = logger.child({symbol});
+      const trx = {...view.pokeFailedOverPrice(symbolHash(symbol)), from: toSigner(signer).address};
+      try {
+        log.info('Dry run poke', {success: true, gas_estimate: await web3.eth.estimateGas(trx)});
+      } catch (e) {
+        log.info('Dry run poke', {success: false, reason: revertReason(e, web3)});
+      }
+    }
+
+    return { failedSources: [], decisions, skipped };
+  }
+
+  const fees = await fetchFees(web3, options.feeModel || 'eip1559', options.gasPrice, {
+    strategy: options.gasStrategy,
+    deviation: deltaMultiple(decisions, deltas)
+  });
+  const maxFee = feeCap(options.feeModel || 'eip1559', options.gasPrice, options.gasStrategy);
+
+  const transactions: PostedTransaction[] = [];
+  try {
+    for (const symbol of symbols) {
+      const poke = view.pokeFailedOverPrice(symbolHash(symbol));
+      const gas = Math.floor(await web3.eth.estimateGas(poke) * GAS_ESTIMATE_MULTIPLIER);
+      const receipt = await postWithRetries(<TransactionConfig>{...poke, gas, ...fees}, signer, web3, undefined, undefined, undefined, maxFee);
+
+      transactions.push({symbols: [symbol], receipt, events: decodePriceEvents(receipt.logs || [], [symbol], web3)});
+    }
+  } catch (e) {
+    throw withResult(e, {failedSources: [], decisions, skipped, transactions, events: analyzeEvents(transactions)});
+  }
+
+  const events = analyzeEvents(transactions);
+
+  return checkGuardedResult({ failedSources: [], decisions, skipped, transactions, events }, options.onGuarded);
+}
+
+export function symbolHash(symbol: string): string {
+  return Web3.utils.keccak256(symbol);
+}
+
+// Reads anchor prices the way the view computes them, see `fetchAnchorPrice`.
+// The ETH price every other anchor is derived from is only read once.
+function anchorReader(view: UniswapAnchoredView, web3: Web3): (symbol: string) => Promise<BigNumber> {
+  let anchorPeriod: Promise<number> | undefined;
+  let ethPrice: Promise<BigNumber> | undefined;
+
+  const readAnchor = async (symbol: string, conversionFactor: BigNumber) => {
+    anchorPeriod = anchorPeriod || view.anchorPeriod().then(Number);
+    const config = await view.getTokenConfigBySymbolHash(symbolHash(symbol));
+    const { tickCumulatives } = await uniswapV3Pool(config.uniswapMarket, web3).observe([await anchorPeriod, 0]);
+
+    return anchorPrice(twap(tickCumulatives, await anchorPeriod, config.isUniswapReversed), conversionFactor, config);
+  };
+
+  return async (symbol) => {
+    ethPrice = ethPrice || readAnchor('ETH', ETH_BASE_UNIT);
+    if (symbol === 'ETH') {
+      return await ethPrice;
+    }
+
+    return await readAnchor(symbol, await ethPrice);
+  };
+}
+
+// Time-weighted average price over the anchor period from two tick cumulatives,
+// scaled by 1e18, mirroring `getUniswapTwap`
+export function twap(tickCumulatives: string[], anchorPeriod: number, isUniswapReversed: boolean): BigNumber {
+  // Solidity's integer division rounds towards zero
+  const tick = new BigNumber(tickCumulatives[1]).minus(tickCumulatives[0]).dividedBy(anchorPeriod).integerValue(BigNumber.ROUND_DOWN).toNumber();
+
+  return new BigNumber(Math.pow(1.0001, isUniswapReversed ? -tick : tick)).multipliedBy(EXP_SCALE);
+}
+
+// Price with 6 decimals from a TWAP, with a conversion factor of 1e18 for ETH,
+// and the ETH price for other assets, mirroring `fetchAnchorPrice`
+export function anchorPrice(twap: BigNumber, conversionFactor: BigNumber, config: Pick<TokenConfig, 'baseUnit'>): BigNumber {
+  return twap.multipliedBy(conversionFactor).multipliedBy(config.baseUnit)
+    .dividedBy(ETH_BASE_UNIT).dividedBy(EXP_SCALE).integerValue(BigNumber.ROUND_DOWN);
+}
@@ -1,9 +1,8 @@
-import AbiCoder from 'web3-eth-abi';
 import Web3 from 'web3';
-import { TransactionConfig } from 'web3-core';
 
+// Decodes a `prices` message as the reporter SDK encodes it, the kind, timestamp,
+// symbol and the price scaled by 1e6
 export function decodeMessage(message: string, web3: Web3): DecodedMessage {
-  // TODO: Consider using `decode` from `reporter.ts`
   let {
     '0': dataType,
     '1': timestamp,
@@ -19,60 +18,6 @@ export function decodeMessage(message: string, web3: Web3): DecodedMessage {
   };
 }
 
-function encodeFull(sig: string, args: any[]): [string[], string] {
-  const types = findTypes(sig);
-
-  const callData =
-    <string>(<any>AbiCoder).encodeFunctionSignature(sig) +
-    <string>(<any>AbiCoder).encodeParameters(types, args).slice(2);
-
-  return [types, callData];
-}
-
-export function encode(sig: string, args: any[]): string {
-  let [types, callData] = encodeFull(sig, args);
-
-  return callData;
-}
-
-export async function read(address: string, sig: string, args: any[], returns: string, web3: Web3): Promise<any> {
-  let [types, callData] = encodeFull(sig, args);
-
-  const call = <TransactionConfig>{
-    data: callData,
-    // Price open oracle data
-    to: address
-  };
-
-  try {
-    const result = await web3.eth.call(call);
-
-    return (<any>AbiCoder).decodeParameter(returns, result);
-  } catch (e) {
-    console.error(`Error reading ${sig}:${args} at ${address}: ${e.toString()}`);
-    throw e;
-  }
-}
-
-export async function readMany(address: string, sig: string, args: any[], returns: string[], web3: Web3): Promise<any> {
-  let [_, callData] = encodeFull(sig, args);
-
-  const call = <TransactionConfig>{
-    data: callData,
-    // Price open oracle data
-    to: address
-  };
-
-  try {
-    const result = await web3.eth.call(call);
-
-    return (<any>AbiCoder).decodeParameters(returns, result);
-  } catch (e) {
-    console.error(`Error reading ${sig}:${args} at ${address}: ${e.toString()}`);
-    throw e;
-  }
-}
-
 // TODO: Swap with ether's own implementation of this
 // e.g. findTypes("postPrices(bytes[],bytes[],string[])")-> ["bytes[]","bytes[]","string[]"]
 export function findTypes(functionSig: string): string[] {
@@ -115,18 +60,6 @@ export function zip<T,U>(arr1: T[], arr2: U[]): [T, U][] {
   return arr1.map((k, i) => [k, arr2[i]])
 }
 
-export async function asyncFilter<T>(arr: T[], f: ((T) => Promise<boolean>)): Promise<T[]> {
-  let tests: boolean[] = await Promise.all(arr.map(f));
-
-  return tests.reduce<T[]>((acc, el, i) => {
-    if (el) {
-      return [...acc, arr[i]];
-    } else {
-      return acc;
-    }
-  }, []);
-}
-
 export async function allSuccesses<T>(promises: Promise<T>[]): Promise<T[]> {
   let settled = await Promise.allSettled(promises);
 
@@ -134,3 +67,20 @@ export async function allSuccesses<T>(promises: Promise<T>[]): Promise<T[]> {
     .filter((promise) => promise.status === 'fulfilled')
     .map((promise => (<PromiseFulfilledResult<T>>promise).value));
 }
+
+// Sends a raw JSON-RPC request, for methods web3 has no wrapper for
+export function sendRpc(web3: Web3, method: string, params: any[]): Promise<any> {
+  const provider = <any>web3.currentProvider;
+
+  return new Promise((resolve, reject) => {
+    provider.send({jsonrpc: '2.0', id: Date.now(), method, params}, (err, response) => {
+      if (err) {
+        reject(err);
+      } else if (response.error) {
+        reject(Object.assign(new Error(response.error.message), {data: response.error.data}));
+      } else {
+        resolve(response.result);
+      }
+    });
+  });
+}
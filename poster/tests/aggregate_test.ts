@@ -0,0 +1,59 @@
+import { aggregateFeedItems, medianPrice, priceSpread } from '../src/aggregate';
+
+describe('aggregating prices across sources', () => {
+  test('medianPrice', () => {
+    expect(medianPrice([3, 1, 2])).toEqual(2);
+    expect(medianPrice([4, 1, 3, 2])).toEqual(2.5);
+    expect(medianPrice([0.1, 0.2])).toEqual(0.15);
+  });
+
+  test('priceSpread', () => {
+    expect(priceSpread([99, 100, 101], 100)).toEqual(2);
+    expect(priceSpread([100], 100)).toEqual(0);
+  });
+
+  test('keeps only the sources that agree with the median', () => {
+    const itemsBySource = [
+      [{symbol: 'ETH', price: 1000, message: '0x1'}, {symbol: 'BTC', price: 10000, message: '0x2'}],
+      [{symbol: 'ETH', price: 1005, message: '0x3'}, {symbol: 'BTC', price: 10050, message: '0x4'}],
+      [{symbol: 'ETH', price: 2000, message: '0x5'}]
+    ];
+
+    expect(aggregateFeedItems(itemsBySource, {min: 2, tolerance: 1})).toEqual([
+      [{symbol: 'ETH', price: 1000, message: '0x1'}, {symbol: 'BTC', price: 10000, message: '0x2'}],
+      [{symbol: 'ETH', price: 1005, message: '0x3'}, {symbol: 'BTC', price: 10050, message: '0x4'}],
+      []
+    ]);
+  });
+
+  test('drops assets that fewer than the quorum of sources agree on', () => {
+    const itemsBySource = [
+      [{symbol: 'ETH', price: 1000}, {symbol: 'BTC', price: 10000}],
+      [{symbol: 'ETH', price: 1100}, {symbol: 'BTC', price: 10010}],
+      [{symbol: 'ETH', price: 1200}]
+    ];
+
+    expect(aggregateFeedItems(itemsBySource, {min: 2, tolerance: 1})).toEqual([
+      [{symbol: 'BTC', price: 10000}],
+      [{symbol: 'BTC', price: 10010}],
+      []
+    ]);
+  });
+
+  test('counts a source that repeats an asset only once', () => {
+    const itemsBySource = [
+      [{symbol: 'ETH', price: 1000}],
+      [{symbol: 'ETH', price: 2000}, {symbol: 'ETH', price: 2000}]
+    ];
+
+    // the repeated price neither makes up a quorum nor pulls the median to 2000
+    expect(aggregateFeedItems(itemsBySource, {min: 2, tolerance: 1})).toEqual([[], []]);
+
+    itemsBySource.push([{symbol: 'ETH', price: 1005}]);
+    expect(aggregateFeedItems(itemsBySource, {min: 2, tolerance: 1})).toEqual([
+      [{symbol: 'ETH', price: 1000}],
+      [],
+      [{symbol: 'ETH', price: 1005}]
+    ]);
+  });
+});
@@ -0,0 +1,61 @@
+import { deviation, splitBatches } from '../src/batches';
+
+const items = [
+  {symbol: 'BTC', price: 10100, prev: 10000, source: '0x1'},
+  {symbol: 'ETH', price: 1100, prev: 1000, source: '0x1'},
+  {symbol: 'ETH', price: 1090, prev: 1000, source: '0x2'},
+  {symbol: 'DAI', price: 1.02, prev: 1, source: '0x1'},
+  {symbol: 'LINK', price: 5.5, prev: 5, source: '0x1'}
+];
+
+// 100k gas for the call, and 100k more for each message
+async function estimateGas(batch) {
+  return 100_000 + 100_000 * batch.length;
+}
+
+describe('splitting posts into batches', () => {
+  test('posts everything at once when it fits', async () => {
+    const batches = await splitBatches(items, 10_000_000, estimateGas);
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0].gas).toEqual(900_000);
+    expect(batches[0].items).toHaveLength(5);
+  });
+
+  test('splits by symbol, with the assets that moved most first', async () => {
+    const batches = await splitBatches(items, 500_000, estimateGas);
+
+    expect(batches.map(({items}) => items.map(({symbol, source}) => `${symbol}:${source}`))).toEqual([
+      ['ETH:0x1', 'ETH:0x2'],
+      ['LINK:0x1', 'DAI:0x1'],
+      ['BTC:0x1']
+    ]);
+    expect(batches.map(({gas}) => gas)).toEqual([450_000, 450_000, 300_000]);
+  });
+
+  test('fails when a single asset needs more than the max', async () => {
+    await expect(splitBatches(items, 400_000, estimateGas))
+      .rejects.toThrow('Posting ETH on its own needs 450000 gas, more than the max of 400000 per transaction');
+  });
+
+  test('splits batches whose gas estimate fails', async () => {
+    // like a node estimating past the block gas limit
+    const estimateWithinBlock = async (batch) => {
+      if (batch.length > 2) {
+        throw new Error('gas required exceeds allowance (30000000)');
+      }
+      return estimateGas(batch);
+    };
+    const batches = await splitBatches(items, 10_000_000, estimateWithinBlock);
+
+    expect(batches.map(({items}) => items.map(({symbol}) => symbol))).toEqual([['ETH', 'ETH'], ['LINK', 'DAI'], ['BTC']]);
+    await expect(splitBatches(items, 10_000_000, async () => { throw new Error('execution reverted'); }))
+      .rejects.toThrow('Could not estimate gas for posting ETH on its own: execution reverted');
+  });
+
+  test('deviation', () => {
+    expect(deviation({symbol: 'ETH', price: 1100, prev: 1000})).toEqual(10);
+    expect(deviation({symbol: 'ETH', price: 900, prev: 1000})).toEqual(10);
+    expect(deviation({symbol: 'ETH', price: 900, prev: 0})).toEqual(Infinity);
+  });
+});
@@ -0,0 +1,195 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig, parseConfig } from '../src/config';
+
+const chain = {
+  name: 'mainnet',
+  web3_provider: 'https://mainnet-eth.compound.finance',
+  view_address: '0x4fe3dd76d873CAF6Cbf56E442B2C808D3984df1D',
+  poster_key: 'env:POSTER_KEY',
+  sources: ['http://localhost:3000/prices.json'],
+  assets: ['ETH', 'BTC'],
+  price_deltas: {ETH: 1, BTC: 1}
+};
+
+describe('config', () => {
+  test('loads several chains from yaml, with shared defaults', () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'poster-')), 'poster.yml');
+    fs.writeFileSync(file, `
+defaults:
+  poster_key: env:POSTER_KEY
+  sources:
+    - http://localhost:3000/prices.json
+    - source: file
+      path: /var/lib/poster/prices.json
+  assets: [ETH, BTC]
+  price_deltas: {ETH: 1, BTC: 1}
+chains:
+  - name: mainnet
+    web3_provider: https://mainnet-eth.compound.finance
+    view_address: "0x4fe3dd76d873CAF6Cbf56E442B2C808D3984df1D"
+    quorum: {min: 2}
+  - name: goerli
+    web3_provider: https://goerli-eth.compound.finance
+    view_address: "0x60F1FFB2FE2bFE6CFFA0A66e258B623f06E1949F"
+    assets: [ETH]
+    gas: {limit: 1000000, price: 5000000000, legacy: true}
+`);
+
+    const [mainnet, goerli] = loadConfig(file);
+
+    expect(mainnet).toMatchObject({
+      name: 'mainnet',
+      viewFunction: 'postPrices(bytes[],bytes[],string[])',
+      sources: ['http://localhost:3000/prices.json', '{"source":"file","path":"/var/lib/poster/prices.json"}'],
+      quorum: {min: 2, tolerance: 1},
+      minHealthySources: 2,
+      gasLimit: 4000000,
+      feeModel: 'eip1559'
+    });
+    expect(goerli).toMatchObject({
+      name: 'goerli',
+      assets: ['ETH'],
+      posterKey: 'env:POSTER_KEY',
+      gasLimit: 1000000,
+      gasPrice: 5000000000,
+      feeModel: 'legacy'
+    });
+  });
+
+  test('looks up view addresses from deployment files by chain id', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'poster-'));
+    fs.writeFileSync(path.join(dir, 'views.json'), JSON.stringify({UniswapAnchoredView: {1: '0x50ce56A3239671Ab62f185704Caedf626352741e'}}));
+
+    const [mainnet] = parseConfig({
+      chains: [{...chain, chain_id: 1, view_address: {file: 'views.json', contract: 'UniswapAnchoredView'}}]
+    }, dir);
+
+    expect(mainnet.viewAddress).toEqual('0x50ce56A3239671Ab62f185704Caedf626352741e');
+    expect(() => parseConfig({
+      chains: [{...chain, chain_id: 5, view_address: {file: 'views.json', contract: 'UniswapAnchoredView'}}]
+    }, dir)).toThrow(/No UniswapAnchoredView address for chain 5 in/);
+  });
+
+  test('looks up view addresses from single network deployment files', () => {
+    const [ropsten] = parseConfig({
+      chains: [{...chain, view_address: {file: '.build/ropsten.json', contract: 'UniswapAnchoredView'}}]
+    }, path.join(__dirname, '../..'));
+
+    expect(ropsten.viewAddress).toEqual('0xCCD252F17E7F69C1ce813DDE398e878A8D8A2202');
+  });
+
+  test('rejects view addresses of contracts that are not price views', () => {
+    expect(() => parseConfig({
+      chains: [{...chain, chain_id: 324, view_address: {file: 'zksync/addresses/oracles.json', contract: 'priceOracle'}}]
+    }, path.join(__dirname, '../..'))).toThrow('View address should be of a price view, one of: AnchoredPriceView, AnchoredView, DelFiPrice, OpenOracleView, UniswapAnchoredView, got priceOracle');
+  });
+
+  test('merges nested defaults key by key', () => {
+    const { price_deltas, ...withoutDeltas } = chain;
+    const [mainnet, goerli] = parseConfig({
+      defaults: {
+        gas: {limit: 1000000, strategy: {type: 'fee-history', percentile: 50, max: 100}},
+        price_deltas: {ETH: 1, BTC: 1},
+        heartbeats: {ETH: 3600}
+      },
+      chains: [
+        withoutDeltas,
+        {...chain, name: 'goerli', price_deltas: {BTC: 5}, gas: {limit: 2000000}}
+      ]
+    });
+
+    expect(mainnet).toMatchObject({gasLimit: 1000000, gasStrategy: {type: 'fee-history', percentile: 50, max: 100}, priceDeltas: {ETH: {delta: 1}, BTC: {delta: 1}}});
+    expect(goerli).toMatchObject({
+      gasLimit: 2000000,
+      gasStrategy: {type: 'fee-history', percentile: 50, max: 100},
+      priceDeltas: {ETH: {delta: 1}, BTC: {delta: 5}},
+      heartbeats: {ETH: 3600}
+    });
+  });
+
+  test('takes chain ids, confirmations and fee models from network profiles', () => {
+    const [zksync, local] = parseConfig({
+      chains: [
+        {...chain, name: 'zksync', network: 'zksync-era'},
+        {...chain, name: 'local', network: 'development', confirmations: 0, gas: {legacy: true}}
+      ]
+    }, path.join(__dirname, '../..'));
+
+    expect(zksync).toMatchObject({chainId: 324, confirmations: 1, timeout: 120, feeModel: 'eip1559'});
+    expect(local).toMatchObject({chainId: undefined, confirmations: 0, timeout: 60, feeModel: 'legacy'});
+    expect(() => parseConfig({chains: [{...chain, network: 'kovan'}]})).toThrow(/Unknown network `kovan`/);
+  });
+
+  test('takes UniswapAnchoredView chains without sources', () => {
+    const { sources, ...withoutSources } = chain;
+    const [uav] = parseConfig({chains: [{...withoutSources, view_type: 'uav'}]});
+
+    expect(uav).toMatchObject({viewType: 'uav', sources: []});
+    expect(() => parseConfig({chains: [withoutSources]})).toThrow('Chain mainnet requires a `sources` field');
+  });
+
+  test('needs the ETH pools for UniswapAnchoredView testnet worlds', () => {
+    const world = {
+      ...chain,
+      view_type: 'uav',
+      assets: ['BTC'],
+      price_deltas: {BTC: 1},
+      testnet_world: true,
+      testnet_uniswap_pairs: {BTC: '0x4fe3dd76d873CAF6Cbf56E442B2C808D3984df1D'},
+      mainnet_uniswap_pairs: {BTC: '0xCBCdF9626bC03E24f779434178A73a0B4bad62eD'}
+    };
+
+    expect(() => parseConfig({chains: [world]}))
+      .toThrow('The uav view type anchors every asset to ETH, so mainnet and testnet ETH pools should be provided');
+    expect(() => parseConfig({chains: [{...world, view_type: 'open-oracle'}]})).not.toThrow();
+    expect(() => parseConfig({chains: [{
+      ...world,
+      testnet_uniswap_pairs: {...world.testnet_uniswap_pairs, ETH: '0x4fe3dd76d873CAF6Cbf56E442B2C808D3984df1D'},
+      mainnet_uniswap_pairs: {...world.mainnet_uniswap_pairs, ETH: '0x8ad599c3A0ff1De082011EFDDc58f1908eb6e6D8'}
+    }]})).not.toThrow();
+  });
+
+  test('reads price deltas as per-asset policies', () => {
+    const [mainnet] = parseConfig({
+      chains: [{...chain, assets: ['ETH', 'USDC', 'REP'], price_deltas: {ETH: {up: 1, down: 0.5}, USDC: {absolute: 0.01, min_interval: 3600}, REP: {disabled: true}}}]
+    });
+
+    expect(mainnet.priceDeltas).toEqual({ETH: {up: 1, down: 0.5}, USDC: {absolute: 0.01, minInterval: 3600}, REP: {disabled: true}});
+    expect(() => parseConfig({chains: [{...chain, price_deltas: {ETH: {delta: 1, max: 2}}}]}))
+      .toThrow('Invalid config');
+    expect(() => parseConfig({chains: [{...chain, view_type: 'uav', price_deltas: {ETH: {delta: 1, min_interval: 60}}}]}))
+      .toThrow('Price delta `min_interval` of ETH is not supported by the uav view type');
+  });
+
+  test('rejects configs that do not match the schema', () => {
+    expect(() => parseConfig({chains: [{...chain, price_deltas: {ETH: 'one'}}]}))
+      .toThrow("Invalid config: config.chains[0].price_deltas['ETH'] should be number");
+    expect(() => parseConfig({chains: [{...chain, gas_limit: 100}]}))
+      .toThrow('Invalid config: config.chains[0] should NOT have additional properties');
+    expect(() => parseConfig({chains: []}))
+      .toThrow('Invalid config: config.chains should NOT have fewer than 1 items');
+  });
+
+  test('rejects chains that are missing fields or misconfigured', () => {
+    const { poster_key, ...withoutKey } = chain;
+
+    expect(() => parseConfig({chains: [withoutKey]})).toThrow('Chain mainnet requires a `poster_key` field');
+    expect(() => parseConfig({chains: [chain, chain]})).toThrow('Chain names should be unique, mainnet is used more than once');
+    expect(() => parseConfig({chains: [{...chain, assets: ['ETH', 'DAI']}]}))
+      .toThrow('Missing price delta for DAI, every asset needs one in --price-deltas');
+    expect(() => parseConfig({chains: [{...chain, price_deltas: {ETH: {up: 1}}}]}))
+      .toThrow('Price delta of ETH sets only one of `up` and `down`, set the other or a `delta` for both');
+    expect(() => parseConfig({chains: [{...chain, price_deltas: {ETH: {down: 120, up: 1}}}]}))
+      .toThrow('Price delta `down` of ETH should be a percent between 0 and 100, got 120');
+    expect(() => parseConfig({chains: [{...chain, price_deltas: {ETH: {delta: 1, min_interval: 0}}}]}))
+      .toThrow('Price delta `min_interval` of ETH should be a positive whole number of seconds, got 0');
+    expect(() => parseConfig({chains: [{...chain, quorum: {min: 2}}]}))
+      .toThrow('Quorum should be a whole number between 1 and the number of sources (1), got 2');
+    expect(() => parseConfig({chains: [{...chain, gas: {price: 1000000000, strategy: 'node'}}]}))
+      .toThrow('Set either a gas price or a gas strategy, not both');
+    expect(() => parseConfig({chains: [{...chain, mainnet_web3_provider: 'http://localhost:8545', mainnet_snapshot: 'mainnet.json'}]}))
+      .toThrow('Set either a mainnet web3 provider or a mainnet snapshot, not both');
+  });
+});
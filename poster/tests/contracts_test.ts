@@ -0,0 +1,110 @@
+import fs from 'fs';
+import Web3 from 'web3';
+import {
+  abiFunction,
+  encodePostPrices,
+  mockUniswapTokenPair,
+  mockUniswapV3Pool,
+  openOraclePriceData,
+  revertReason,
+  uniswapV2Pair
+} from '../src/contracts';
+
+const web3 = new Web3();
+const address = '0x4fe3dd76d873CAF6Cbf56E442B2C808D3984df1D';
+const source = '0xfCEAdAFab14d46e20144F48824d0C09B1a03F2BC';
+
+// Answers `eth_call`s by selector, failing on anything else
+function mockCalls(results: {[signature: string]: string}, error?: any): Web3 {
+  const bySelector = Object.fromEntries(Object.entries(results).map(([sig, result]) => [web3.eth.abi.encodeFunctionSignature(sig), result]));
+
+  return <Web3><unknown>{
+    eth: {
+      abi: web3.eth.abi,
+      call: async ({data}) => {
+        if (error) {
+          throw error;
+        }
+
+        return bySelector[data.slice(0, 10)];
+      }
+    }
+  };
+}
+
+describe('contract bindings', () => {
+  test('decode the outputs of view functions', async () => {
+    const priceData = openOraclePriceData(address, mockCalls({
+      'getPrice(address,string)': web3.eth.abi.encodeParameter('uint64', 250e6),
+      'get(address,string)': web3.eth.abi.encodeParameters(['uint64', 'uint64'], [1593209100, 250e6])
+    }));
+
+    expect(await priceData.getPrice(source, 'ETH')).toEqual('250000000');
+    expect(await priceData.get(source, 'ETH')).toEqual({timestamp: '1593209100', value: '250000000'});
+
+    const pair = uniswapV2Pair(address, mockCalls({
+      'getReserves()': web3.eth.abi.encodeParameters(['uint112', 'uint112', 'uint32'], [100, 200, 1593209100])
+    }));
+
+    expect(await pair.getReserves()).toEqual({reserve0: '100', reserve1: '200', blockTimestampLast: '1593209100'});
+  });
+
+  test('fail with the decoded revert reason', async () => {
+    const data = '0x08c379a0' + web3.eth.abi.encodeParameter('string', 'Bad signature').slice(2);
+    const priceData = openOraclePriceData(address, mockCalls({}, {message: 'execution reverted', data}));
+
+    await expect(priceData.source('0x01', '0x02')).rejects.toThrow(`OpenOraclePriceData.source failed at ${address}: Bad signature`);
+  });
+
+  test('build transactions for write functions', () => {
+    const trx = mockUniswapTokenPair(address).update('100', '200', '1593209100', '1', '2');
+
+    expect(trx.to).toEqual(address);
+    expect(trx.data).toEqual(web3.eth.abi.encodeFunctionCall(
+      <any>abiFunction('MockUniswapTokenPair', 'update'),
+      ['100', '200', '1593209100', '1', '2']
+    ));
+  });
+
+  test('build transactions mirroring V3 observations', () => {
+    const trx = mockUniswapV3Pool(address).setObservations([1800, 0], ['-3605598000000', '0'], ['1', '2']);
+    const [secondsAgos, tickCumulatives] = Object.values(web3.eth.abi.decodeParameters(['uint32[]', 'int56[]', 'uint160[]'], '0x' + (<string>trx.data).slice(10)));
+
+    expect((<string>trx.data).slice(0, 10)).toEqual(web3.eth.abi.encodeFunctionSignature('setObservations(uint32[],int56[],uint160[])'));
+    expect(secondsAgos).toEqual(['1800', '0']);
+    expect(tickCumulatives).toEqual(['-3605598000000', '0']);
+  });
+
+  test('encode either postPrices overload', () => {
+    const twoArgs = encodePostPrices('postPrices(bytes[],bytes[])', ['0x01'], ['0x02'], ['ETH']);
+
+    expect(twoArgs.slice(0, 10)).toEqual(web3.eth.abi.encodeFunctionSignature('postPrices(bytes[],bytes[])'));
+    expect(web3.eth.abi.decodeParameters(['bytes[]', 'bytes[]'], '0x' + twoArgs.slice(10))[1]).toEqual(['0x02']);
+    expect(() => encodePostPrices('postPrices', [], [], [])).toThrow('OpenOracleView function `postPrices` is overloaded');
+    expect(() => encodePostPrices('priceData()', [], [], [])).toThrow('View function should be one of the postPrices functions, got priceData()');
+  });
+
+  test('encode view functions the ABI does not have from their signature', () => {
+    const writePrices = encodePostPrices('writePrices(bytes[],bytes[])', ['0x01'], ['0x02'], ['ETH']);
+
+    expect(writePrices.slice(0, 10)).toEqual(web3.eth.abi.encodeFunctionSignature('writePrices(bytes[],bytes[])'));
+    expect(web3.eth.abi.decodeParameters(['bytes[]', 'bytes[]'], '0x' + writePrices.slice(10))[0]).toEqual(['0x01']);
+    expect(() => encodePostPrices('writePrices', [], [], [])).toThrow('View function should be a function signature, e.g. postPrices(bytes[],bytes[],string[]), got writePrices');
+    expect(() => encodePostPrices('writePrices(bytes[])', [], [], [])).toThrow('View function should take the messages, signatures and optionally the symbols, as (bytes[],bytes[],string[]) or (bytes[],bytes[]), got writePrices(bytes[])');
+  });
+
+  test('revertReason decodes revert data or the error message', () => {
+    const data = '0x08c379a0' + web3.eth.abi.encodeParameter('string', 'Invalid symbol').slice(2);
+
+    expect(revertReason({message: 'execution reverted', data}, web3)).toEqual('Invalid symbol');
+    expect(revertReason(new Error('Returned error: VM Exception while processing transaction: revert Invalid symbol'), web3)).toEqual('Invalid symbol');
+  });
+
+  test('generated ABIs match the ABIs, and artifacts when built', () => {
+    const { generate } = require('../scripts/abis');
+
+    for (const [file, contents] of Object.entries(generate())) {
+      expect([file, fs.readFileSync(file, 'utf8')]).toEqual([file, contents]);
+    }
+  });
+});
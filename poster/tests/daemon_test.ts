@@ -0,0 +1,68 @@
+import { startDaemon } from '../src/daemon';
+
+describe('daemon', () => {
+  test('runs ticks until stopped and waits for the in-flight tick', async () => {
+    let ticks = 0;
+    let finished = 0;
+    let release: () => void = () => {};
+
+    const daemon = startDaemon(async () => {
+      ticks++;
+      if (ticks === 2) {
+        await new Promise<void>(resolve => release = resolve);
+      }
+      finished++;
+    }, 0.001, () => {});
+
+    // Wait until the second tick is in flight
+    while (ticks < 2) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    const stopped = daemon.stop();
+    expect(finished).toEqual(1);
+
+    release();
+    await stopped;
+
+    expect(ticks).toEqual(2);
+    expect(finished).toEqual(2);
+  });
+
+  test('keeps running after a failing tick', async () => {
+    let ticks = 0;
+    const errors: Error[] = [];
+
+    const daemon = startDaemon(async () => {
+      ticks++;
+      if (ticks === 1) {
+        throw new Error('boom');
+      }
+    }, 0.001, (e) => { errors.push(e) });
+
+    while (ticks < 3) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    await daemon.stop();
+
+    expect(errors.map(e => e.message)).toEqual(['boom']);
+  });
+
+  test('stop interrupts the sleep between ticks', async () => {
+    let ticks = 0;
+    const daemon = startDaemon(async () => { ticks++ }, 3600, () => {});
+
+    while (ticks < 1) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    await daemon.stop();
+
+    expect(ticks).toEqual(1);
+  });
+
+  test('rejects intervals that are not a positive number of seconds', () => {
+    [0, -60, NaN, Infinity].forEach(interval => {
+      expect(() => startDaemon(async () => {}, interval, () => {})).toThrow(`Interval should be a positive number of seconds, got ${interval}`);
+    });
+  });
+});
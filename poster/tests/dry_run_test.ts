@@ -0,0 +1,68 @@
+import Ganache from 'ganache-core';
+import Web3 from 'web3';
+import { decodeCalldata, simulate } from '../src/dry_run';
+import { decodePriceEvents } from '../src/events';
+import { buildTrxData } from '../src/poster';
+
+const web3 = new Web3();
+const functionSig = 'postPrices(bytes[],bytes[],string[])';
+
+function message(symbol: string, price: number): string {
+  return web3.eth.abi.encodeParameters(['string', 'uint64', 'string', 'uint64'], ['prices', 1593209100, symbol, price * 1e6]);
+}
+
+const feedItems = [
+  {message: message('ETH', 250), signature: '0x01', dataType: 'prices', timestamp: 1593209100, symbol: 'ETH', price: 250, source: '', prev: 240},
+  {message: message('BTC', 9000), signature: '0x02', dataType: 'prices', timestamp: 1593209100, symbol: 'BTC', price: 9000, source: '', prev: 8000}
+];
+
+describe('dry run', () => {
+  test('decodes the messages and symbols a transaction would post', () => {
+    const { messages, symbols } = decodeCalldata(buildTrxData(feedItems, functionSig), functionSig, web3);
+
+    expect(messages.map(({symbol, price}) => [symbol, price])).toEqual([['ETH', 250], ['BTC', 9000]]);
+    expect(symbols).toEqual(['ETH', 'BTC']);
+  });
+
+  test('decodes price events from both view versions', () => {
+    const logs = [
+      {
+        topics: [web3.eth.abi.encodeEventSignature('PriceUpdated(bytes32,uint256)'), web3.utils.keccak256('ETH')],
+        data: web3.eth.abi.encodeParameter('uint256', 250e6)
+      },
+      {
+        topics: [web3.eth.abi.encodeEventSignature('PriceGuarded(string,uint256,uint256)')],
+        data: web3.eth.abi.encodeParameters(['string', 'uint256', 'uint256'], ['BTC', 9000e6, 8000e6])
+      },
+      {
+        topics: [web3.eth.abi.encodeEventSignature('Transfer(address,address,uint256)')],
+        data: '0x'
+      }
+    ];
+
+    expect(decodePriceEvents(logs, ['ETH', 'BTC'], web3)).toEqual([
+      {event: 'PriceUpdated', symbol: 'ETH', price: 250},
+      {event: 'PriceGuarded', symbol: 'BTC', reporterPrice: 9000, anchorPrice: 8000}
+    ]);
+  });
+
+  test('simulates without sending, and reports events as unavailable without debug_traceCall', async () => {
+    const ganache = new Web3(<any>Ganache.provider());
+    const [from] = await ganache.eth.getAccounts();
+    const sendSignedTransaction = jest.spyOn(ganache.eth, 'sendSignedTransaction');
+    const trx = {
+      data: buildTrxData(feedItems, functionSig),
+      to: '0x4fe3dd76d873CAF6Cbf56E442B2C808D3984df1D',
+      from
+    };
+
+    const report = await simulate(trx, functionSig, ganache);
+
+    expect(report.success).toEqual(true);
+    expect(report.gasEstimate).toBeGreaterThan(21000);
+    expect(report.events).toBeUndefined();
+    expect(report.symbols).toEqual(['ETH', 'BTC']);
+    expect(sendSignedTransaction).not.toHaveBeenCalled();
+    expect(await ganache.eth.getBlockNumber()).toEqual(0);
+  });
+});
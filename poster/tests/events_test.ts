@@ -0,0 +1,67 @@
+import Web3 from 'web3';
+import { checkGuarded, decodePriceEvents, guardedPrices, summarizeEvents } from '../src/events';
+import { checkGuardedResult } from '../src/poster';
+
+const web3 = new Web3();
+const hashed = (signature: string, symbol: string, prices: number[]) => ({
+  topics: [web3.eth.abi.encodeEventSignature(signature), web3.utils.keccak256(symbol)],
+  data: web3.eth.abi.encodeParameters(prices.map(() => 'uint256'), prices)
+});
+
+const logs = [
+  hashed('PriceUpdated(bytes32,uint256)', 'ETH', [2000e6]),
+  hashed('PriceGuarded(bytes32,uint256,uint256)', 'BTC', [30000e6, 25000e6]),
+  hashed('FailoverActivated(bytes32)', 'BTC', []),
+  hashed('PriceUpdated(bytes32,uint256)', 'BTC', [25000e6]),
+  {topics: [web3.eth.abi.encodeEventSignature('Transfer(address,address,uint256)')], data: '0x'}
+];
+
+describe('events', () => {
+  test('decodes price and failover events from receipt logs', () => {
+    expect(decodePriceEvents(logs, ['ETH', 'BTC'], web3)).toEqual([
+      {event: 'PriceUpdated', symbol: 'ETH', price: 2000},
+      {event: 'PriceGuarded', symbol: 'BTC', reporterPrice: 30000, anchorPrice: 25000},
+      {event: 'FailoverActivated', symbol: 'BTC'},
+      {event: 'PriceUpdated', symbol: 'BTC', price: 25000}
+    ]);
+  });
+
+  test('sums up events by symbol', () => {
+    const summary = summarizeEvents(decodePriceEvents(logs, ['ETH', 'BTC'], web3));
+
+    expect(summary).toEqual({
+      ETH: {price: 2000},
+      BTC: {price: 25000, guarded: {reporterPrice: 30000, anchorPrice: 25000}, failover: 'activated'}
+    });
+    expect(guardedPrices(summary)).toEqual({BTC: {reporter_price: 30000, anchor_price: 25000}});
+  });
+
+  test('warns about or fails on guarded prices', () => {
+    const summary = summarizeEvents(decodePriceEvents(logs, ['ETH', 'BTC'], web3));
+
+    expect(() => checkGuarded(summary, 'warn')).not.toThrow();
+    expect(() => checkGuarded(summary, 'fail')).toThrow('Prices guarded by the anchor: BTC (reported 30000, anchor 25000)');
+    expect(() => checkGuarded({ETH: {price: 2000}}, 'fail')).not.toThrow();
+  });
+
+  test('fails on guarded prices keeping the run result', () => {
+    const result = {
+      failedSources: [],
+      decisions: [],
+      skipped: {},
+      transactions: [{symbols: ['ETH', 'BTC'], receipt: <any>{status: true, gasUsed: 100000}}],
+      events: summarizeEvents(decodePriceEvents(logs, ['ETH', 'BTC'], web3))
+    };
+
+    expect(checkGuardedResult(result, 'warn')).toBe(result);
+    const error = (() => {
+      try {
+        checkGuardedResult(result, 'fail');
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error.message).toEqual('Prices guarded by the anchor: BTC (reported 30000, anchor 25000)');
+    expect(error.result).toBe(result);
+  });
+});
@@ -0,0 +1,115 @@
+import Web3 from 'web3';
+import { bumpFees, fetchEip1559Fees, fetchFees, parseGasStrategy } from '../src/fees';
+
+function mockFeeHistory(baseFeePerGas: string[], reward: string[][], gasPrice = '0'): Web3 {
+  return <Web3><unknown>{
+    eth: {
+      getGasPrice: async () => gasPrice,
+      getFeeHistory: async (_blocks, _newest, _percentiles) => ({
+        baseFeePerGas,
+        gasUsedRatio: [],
+        oldestBlock: 1,
+        reward
+      })
+    }
+  };
+}
+
+describe('fees', () => {
+  test('fetchEip1559Fees uses the next base fee and the median priority fee', async () => {
+    const web3 = mockFeeHistory(
+      ['0x3b9aca00', '0x3b9aca00', '0x4a817c800'],
+      [['0x77359400'], ['0x3b9aca00'], ['0xb2d05e00']]
+    );
+
+    expect(await fetchEip1559Fees(web3)).toEqual({
+      maxFeePerGas: 2 * 20_000_000_000 + 2_000_000_000,
+      maxPriorityFeePerGas: 2_000_000_000
+    });
+  });
+
+  test('fetchFees caps the max fee by the configured gas price', async () => {
+    const web3 = mockFeeHistory(['0x4a817c800'], [['0x77359400']]);
+
+    expect(await fetchFees(web3, 'eip1559', 30_000_000_000)).toEqual({
+      maxFeePerGas: 30_000_000_000,
+      maxPriorityFeePerGas: 2_000_000_000
+    });
+    expect(await fetchFees(web3, 'eip1559', 1_000_000_000)).toEqual({
+      maxFeePerGas: 1_000_000_000,
+      maxPriorityFeePerGas: 1_000_000_000
+    });
+  });
+
+  test('fetchFees uses the configured gas price for legacy transactions', async () => {
+    const web3 = mockFeeHistory([], []);
+
+    expect(await fetchFees(web3, 'legacy', 5_000_000_000)).toEqual({ gasPrice: 5_000_000_000 });
+  });
+
+  test('gas strategies pick the price from the node, the fee history or a fixed value', async () => {
+    const web3 = mockFeeHistory(['0x4a817c800'], [['0x77359400']], '25000000000');
+
+    expect(await fetchFees(web3, 'legacy', undefined, {strategy: {type: 'node'}})).toEqual({ gasPrice: 25_000_000_000 });
+    expect(await fetchFees(web3, 'legacy', undefined, {strategy: {type: 'fee-history'}})).toEqual({ gasPrice: 22_000_000_000 });
+    expect(await fetchFees(web3, 'legacy', undefined, {strategy: {type: 'fixed', value: 7_000_000_000}})).toEqual({ gasPrice: 7_000_000_000 });
+    expect(await fetchFees(web3, 'eip1559', undefined, {strategy: {type: 'node'}})).toEqual({
+      maxFeePerGas: 25_000_000_000,
+      maxPriorityFeePerGas: 2_000_000_000
+    });
+  });
+
+  test('gas strategies keep fees within their min and max', async () => {
+    const web3 = mockFeeHistory(['0x4a817c800'], [['0x77359400']], '25000000000');
+
+    expect(await fetchFees(web3, 'legacy', undefined, {strategy: {type: 'node', max: 20_000_000_000}})).toEqual({ gasPrice: 20_000_000_000 });
+    expect(await fetchFees(web3, 'legacy', undefined, {strategy: {type: 'node', min: 30_000_000_000}})).toEqual({ gasPrice: 30_000_000_000 });
+    expect(await fetchFees(web3, 'eip1559', undefined, {strategy: {type: 'fee-history', max: 1_000_000_000}})).toEqual({
+      maxFeePerGas: 1_000_000_000,
+      maxPriorityFeePerGas: 1_000_000_000
+    });
+  });
+
+  test('gas strategies raise fees when an asset has moved far beyond its delta', async () => {
+    const web3 = mockFeeHistory(['0x4a817c800'], [['0x77359400']], '20000000000');
+    const strategy = parseGasStrategy({type: 'node', max: 35_000_000_000, urgency: {threshold: 3, multiplier: 1.5}});
+
+    expect(await fetchFees(web3, 'legacy', undefined, {strategy, deviation: 2.9})).toEqual({ gasPrice: 20_000_000_000 });
+    expect(await fetchFees(web3, 'legacy', undefined, {strategy, deviation: 3})).toEqual({ gasPrice: 30_000_000_000 });
+    expect(await fetchFees(web3, 'eip1559', undefined, {strategy: {...strategy, type: 'fee-history'}, deviation: 10})).toEqual({
+      maxFeePerGas: 35_000_000_000,
+      maxPriorityFeePerGas: 3_000_000_000
+    });
+  });
+
+  test('parseGasStrategy takes names or JSON strategies, and rejects misconfigured ones', () => {
+    expect(parseGasStrategy('node')).toEqual({type: 'node'});
+    expect(parseGasStrategy('{"type": "fee-history", "percentile": 75}')).toEqual({type: 'fee-history', percentile: 75});
+    expect(() => parseGasStrategy('oracle')).toThrow('Gas strategy type should be one of: node, fee-history, fixed, api, got oracle');
+    expect(() => parseGasStrategy('fixed')).toThrow('Gas strategy `fixed` requires a positive `value`');
+    expect(() => parseGasStrategy({type: 'node', min: 10, max: 5})).toThrow('Gas strategy min should not be above its max, got 10 and 5');
+    expect(() => parseGasStrategy({type: 'node', urgency: {threshold: 2, multiplier: 0.5}}))
+      .toThrow('Gas strategy urgency needs a positive threshold and a multiplier of at least 1');
+  });
+
+  test('bumpFees raises both EIP-1559 fees', () => {
+    expect(bumpFees({ maxFeePerGas: 100, maxPriorityFeePerGas: 10, gas: 21000 }, 1.2)).toEqual({
+      maxFeePerGas: 120,
+      maxPriorityFeePerGas: 12,
+      gas: 21000
+    });
+  });
+
+  test('bumpFees raises by at least the minimum replacement bump', () => {
+    expect(bumpFees({ gasPrice: 100 }, 1.01)).toEqual({ gasPrice: 110 });
+  });
+
+  test('bumpFees holds fees to the max', () => {
+    expect(bumpFees({ gasPrice: 100 }, 1.2, 115)).toEqual({ gasPrice: 115 });
+    expect(bumpFees({ maxFeePerGas: 100, maxPriorityFeePerGas: 100, gas: 21000 }, 1.2, 110)).toEqual({
+      maxFeePerGas: 110,
+      maxPriorityFeePerGas: 110,
+      gas: 21000
+    });
+  });
+});
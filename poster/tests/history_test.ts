@@ -0,0 +1,87 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { appendRun, parseTime, readRuns, runRecord } from '../src/history';
+import { withResult } from '../src/poster';
+
+const payload = {messages: ['0xmessage'], signatures: ['0xsignature'], prices: {ETH: '250', BTC: '9000'}};
+const posted = {
+  payloads: [payload],
+  failedSources: [],
+  skipped: {in_delta: 1},
+  decisions: [
+    {symbol: 'ETH', price: 250, prev: 200, source: '0x1', post: true, reason: <const>'delta'},
+    {symbol: 'BTC', price: 9000, prev: 9000, source: '0x1', post: false, reason: <const>'in_delta'}
+  ],
+  transactions: [{symbols: ['ETH'], receipt: <any>{transactionHash: '0xhash', gasUsed: 100000, status: true}}],
+  events: {ETH: {price: 250}}
+};
+const run = (runId: string, startedAt: string) => ({runId, chain: 'mainnet', startedAt: new Date(startedAt), dryRun: false});
+
+function stateFile(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'poster-')), 'runs.jsonl');
+}
+
+describe('history', () => {
+  test('records what a run read, decided and sent', () => {
+    expect(runRecord(run('1', '2026-10-01T00:00:00Z'), posted, new Date('2026-10-01T00:00:30Z'))).toEqual({
+      run_id: '1',
+      chain: 'mainnet',
+      started_at: '2026-10-01T00:00:00.000Z',
+      finished_at: '2026-10-01T00:00:30.000Z',
+      outcome: 'success',
+      dry_run: false,
+      payloads: [payload],
+      decisions: posted.decisions,
+      transactions: [{symbols: ['ETH'], hash: '0xhash', gas_used: 100000, status: true}],
+      events: {ETH: {price: 250}}
+    });
+    expect(runRecord(run('2', '2026-10-01T00:01:00Z'), new Error('No sources could be read'))).toMatchObject({
+      outcome: 'failure',
+      error: 'No sources could be read'
+    });
+  });
+
+  test('records what a failed run posted before failing', () => {
+    const error = withResult(new Error('Prices guarded by the anchor: ETH (reported 250, anchor 200)'), posted);
+
+    expect(runRecord(run('1', '2026-10-01T00:00:00Z'), error)).toMatchObject({
+      outcome: 'failure',
+      error: 'Prices guarded by the anchor: ETH (reported 250, anchor 200)',
+      decisions: posted.decisions,
+      transactions: [{symbols: ['ETH'], hash: '0xhash', gas_used: 100000, status: true}]
+    });
+  });
+
+  test('reads back runs by asset and time range', () => {
+    const file = stateFile();
+    appendRun(file, runRecord(run('1', '2026-10-01T00:00:00Z'), posted));
+    appendRun(file, runRecord(run('2', '2026-10-02T00:00:00Z'), posted));
+    appendRun(file, runRecord(run('3', '2026-10-03T00:00:00Z'), {...posted, decisions: [posted.decisions[1]], transactions: [], events: {}}));
+
+    expect(readRuns(file).map(({run_id}) => run_id)).toEqual(['1', '2', '3']);
+    expect(readRuns(file, {since: new Date('2026-10-02T00:00:00Z')}).map(({run_id}) => run_id)).toEqual(['2', '3']);
+    expect(readRuns(file, {until: new Date('2026-10-01T12:00:00Z')}).map(({run_id}) => run_id)).toEqual(['1']);
+
+    const eth = readRuns(file, {assets: ['eth']});
+    expect(eth.map(({run_id}) => run_id)).toEqual(['1', '2']);
+    expect(eth[0].decisions).toEqual([posted.decisions[0]]);
+
+    const btc = readRuns(file, {assets: ['BTC'], since: new Date('2026-10-02T00:00:00Z')});
+    expect(btc.map(({run_id}) => run_id)).toEqual(['2', '3']);
+    expect(btc[0]).toMatchObject({decisions: [posted.decisions[1]], transactions: [], events: {}});
+
+    // failed runs are kept, whichever assets they got to
+    appendRun(file, runRecord(run('4', '2026-10-04T00:00:00Z'), new Error('No sources could be read')));
+    expect(readRuns(file, {assets: ['ETH'], since: new Date('2026-10-03T00:00:00Z')}).map(({run_id}) => run_id)).toEqual(['4']);
+
+    expect(readRuns(file, {chain: 'goerli'})).toEqual([]);
+    expect(readRuns(path.join(path.dirname(file), 'missing.jsonl'))).toEqual([]);
+  });
+
+  test('parses times as dates or unix seconds', () => {
+    expect(parseTime('2026-10-01')).toEqual(new Date('2026-10-01T00:00:00Z'));
+    expect(parseTime('1790812800')).toEqual(new Date(1790812800 * 1000));
+    expect(() => parseTime('yesterday')).toThrow('Time should be an ISO 8601 date or unix seconds, got yesterday');
+  });
+});
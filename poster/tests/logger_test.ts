@@ -0,0 +1,52 @@
+import { addSecret, addSecretsFrom, createLogger, LogLevel, setLogLevel, setLogWriter, startRun } from '../src/logger';
+
+describe('logger', () => {
+  let lines: [LogLevel, any][];
+
+  beforeEach(() => {
+    lines = [];
+    setLogWriter((level, line) => lines.push([level, JSON.parse(line)]));
+    setLogLevel('info');
+  });
+
+  test('writes json lines with the run id and context fields', () => {
+    const runId = startRun();
+    createLogger({symbol: 'ETH'}).child({source: '0x1'}).info('Setting price', {price: 250});
+
+    expect(lines).toEqual([['info', expect.objectContaining({
+      level: 'info',
+      message: 'Setting price',
+      run_id: runId,
+      symbol: 'ETH',
+      source: '0x1',
+      price: 250
+    })]]);
+    expect(startRun()).not.toEqual(runId);
+  });
+
+  test('skips lines below the log level', () => {
+    setLogLevel('warn');
+    const logger = createLogger();
+    logger.info('ignored');
+    logger.warn('kept');
+
+    expect(lines.map(([level]) => level)).toEqual(['warn']);
+    expect(() => setLogLevel('verbose')).toThrow('Log level should be one of: debug, info, warn, error, got verbose');
+  });
+
+  test('redacts secret fields and registered secrets', () => {
+    addSecret('0x620622d7fbe43a4dccd3aef6ef90d20728508c563719380f289cf3f9460d0510');
+    addSecretsFrom({source: 'coinbase', endpoint: 'https://api.pro.coinbase.com/oracle', api_key_id: 'coinbase-key', api_secret: 'coinbase-secret'});
+
+    createLogger().error('Error fetching payload', {
+      source: {endpoint: 'https://api.pro.coinbase.com/oracle', api_passphrase: 'hunter2', key_header: 'CB-ACCESS-KEY'},
+      error: new Error('bad key 0x620622d7fbe43a4dccd3aef6ef90d20728508c563719380f289cf3f9460d0510 for coinbase-key')
+    });
+
+    const [[level, line]] = lines;
+    expect(level).toEqual('error');
+    expect(line.source).toEqual({endpoint: 'https://api.pro.coinbase.com/oracle', api_passphrase: '[REDACTED]', key_header: 'CB-ACCESS-KEY'});
+    expect(line.error.message).toEqual('bad key [REDACTED] for [REDACTED]');
+    expect(JSON.stringify(line)).not.toContain('coinbase-secret');
+  });
+});
@@ -0,0 +1,76 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Web3 from 'web3';
+import { mockUniswapTokenPair, mockUniswapV3Pool } from '../src/contracts';
+import { mainnetState, mockUniswapTokenPairs, mockUniswapV3Pools } from '../src/mainnet_uniswap_mocker';
+import * as postWithRetries from '../src/post_with_retries';
+
+const web3 = new Web3();
+const posterKey = '0x620622d7fbe43a4dccd3aef6ef90d20728508c563719380f289cf3f9460d0510';
+const pairs = {
+  testnet: {ETH: '0x4fe3dd76d873CAF6Cbf56E442B2C808D3984df1D'},
+  mainnet: {ETH: '0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc'}
+};
+const snapshot = {
+  pairs: {
+    // addresses match whatever their case
+    '0xb4e16d0168e52d35cacd2c6185b44281ec28c9dc': {
+      reserve0: '100000000000',
+      reserve1: '50000000000000000000',
+      blockTimestampLast: '1593209100',
+      price0CumulativeLast: '1',
+      price1CumulativeLast: '2'
+    }
+  },
+  pools: {
+    '0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc': {
+      '1800': {tickCumulative: '-3605598000000', secondsPerLiquidityCumulativeX128: '10'},
+      '0': {tickCumulative: '-3605958000000', secondsPerLiquidityCumulativeX128: '20'}
+    }
+  }
+};
+
+function snapshotFile(): string {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'poster-')), 'mainnet.json');
+  fs.writeFileSync(file, JSON.stringify(snapshot));
+
+  return file;
+}
+
+describe('mainnet uniswap mocker', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  test('mirrors pairs from a mainnet snapshot', async () => {
+    const post = jest.spyOn(postWithRetries, 'postWithRetries').mockImplementation(async () => <any>{status: true});
+
+    await mockUniswapTokenPairs(['eth'], posterKey, pairs, 100_000, {gasPrice: 1}, web3, mainnetState({snapshot: snapshotFile()}));
+
+    expect(post).toHaveBeenCalledWith({
+      ...mockUniswapTokenPair(pairs.testnet.ETH).update('100000000000', '50000000000000000000', '1593209100', '1', '2'),
+      gas: 100_000,
+      gasPrice: 1
+    }, posterKey, web3);
+  });
+
+  test('mirrors V3 observations over the anchor period from a mainnet snapshot', async () => {
+    const post = jest.spyOn(postWithRetries, 'postWithRetries').mockImplementation(async () => <any>{status: true});
+    const mainnet = mainnetState({snapshot: snapshotFile()});
+
+    await mockUniswapV3Pools(['ETH'], posterKey, pairs, 1800, 100_000, {gasPrice: 1}, web3, mainnet);
+
+    expect(post).toHaveBeenCalledWith({
+      ...mockUniswapV3Pool(pairs.testnet.ETH).setObservations([1800, 0], ['-3605598000000', '-3605958000000'], ['10', '20']),
+      gas: 100_000,
+      gasPrice: 1
+    }, posterKey, web3);
+    await expect(mockUniswapV3Pools(['ETH'], posterKey, pairs, 3600, 100_000, {gasPrice: 1}, web3, mainnet))
+      .rejects.toThrow(`No observation from 3600 seconds ago for pool ${pairs.mainnet.ETH} in the mainnet snapshot`);
+  });
+
+  test('fails on pairs missing from the snapshot', async () => {
+    const mainnet = mainnetState({snapshot: snapshotFile()});
+
+    await expect(mainnet.pair(pairs.testnet.ETH)).rejects.toThrow(`No pair ${pairs.testnet.ETH} in the mainnet snapshot`);
+  });
+});
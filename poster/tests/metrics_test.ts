@@ -0,0 +1,120 @@
+import http from 'http';
+import { metrics, recordFailedRun, recordRun, renderMetrics, runLabels, setRunChain, startMetricsServer } from '../src/metrics';
+
+describe('metrics', () => {
+  beforeEach(() => {
+    Object.values(metrics).forEach(metric => metric.reset());
+  });
+
+  test('records posted and skipped assets, gas and deviation from a run', () => {
+    recordRun({
+      failedSources: [],
+      skipped: {in_delta: 1},
+      decisions: [
+        {symbol: 'ETH', price: 250, prev: 200, source: '0x1', post: true, reason: 'delta'},
+        {symbol: 'BTC', price: 9000, prev: 9000, source: '0x1', post: false, reason: 'in_delta'}
+      ],
+      transactions: [{symbols: ['ETH'], receipt: <any>{status: true, gasUsed: 100000}}]
+    }, 'mainnet', 1593209100);
+
+    expect(metrics.runs.get({chain: 'mainnet', result: 'success'})).toEqual(1);
+    expect(metrics.assetsPosted.get({chain: 'mainnet', symbol: 'ETH'})).toEqual(1);
+    expect(metrics.assetsSkipped.get({chain: 'mainnet', symbol: 'BTC', reason: 'in_delta'})).toEqual(1);
+    expect(metrics.gasUsed.get({chain: 'mainnet'})).toEqual(100000);
+    expect(metrics.lastPost.get({chain: 'mainnet', symbol: 'ETH'})).toEqual(1593209100);
+    expect(metrics.deviation.get({chain: 'mainnet', symbol: 'ETH'})).toEqual(25);
+    expect(metrics.deviation.get({chain: 'mainnet', symbol: 'BTC'})).toEqual(0);
+  });
+
+  test('does not count posts from reverted transactions', () => {
+    recordRun({
+      failedSources: [],
+      skipped: {},
+      decisions: [{symbol: 'ETH', price: 250, prev: 200, source: '0x1', post: true, reason: 'delta'}],
+      transactions: [{symbols: ['ETH'], receipt: <any>{status: false, gasUsed: 50000}}]
+    }, 'mainnet');
+
+    expect(metrics.assetsPosted.get({chain: 'mainnet', symbol: 'ETH'})).toBeUndefined();
+    expect(metrics.gasUsed.get({chain: 'mainnet'})).toEqual(50000);
+  });
+
+  test('counts prices guarded by the anchor', () => {
+    recordRun({
+      failedSources: [],
+      skipped: {},
+      decisions: [{symbol: 'ETH', price: 250, prev: 200, source: '0x1', post: true, reason: 'delta'}],
+      transactions: [{symbols: ['ETH'], receipt: <any>{status: true, gasUsed: 50000}}],
+      events: {ETH: {guarded: {reporterPrice: 250, anchorPrice: 200}}}
+    }, 'mainnet');
+
+    expect(metrics.guarded.get({chain: 'mainnet', symbol: 'ETH'})).toEqual(1);
+  });
+
+  test('records what a failed run posted before failing', () => {
+    recordFailedRun('mainnet', {
+      failedSources: [],
+      skipped: {},
+      decisions: [{symbol: 'ETH', price: 250, prev: 200, source: '0x1', post: true, reason: 'delta'}],
+      transactions: [{symbols: ['ETH'], receipt: <any>{status: true, gasUsed: 50000}}]
+    });
+    recordFailedRun('mainnet');
+
+    expect(metrics.runs.get({chain: 'mainnet', result: 'failure'})).toEqual(2);
+    expect(metrics.assetsPosted.get({chain: 'mainnet', symbol: 'ETH'})).toEqual(1);
+    expect(metrics.gasUsed.get({chain: 'mainnet'})).toEqual(50000);
+  });
+
+  test('renders the prometheus text format', () => {
+    metrics.sourceFailures.inc({chain: 'mainnet', source: 'url:http://localhost:3000/"prices"'});
+
+    expect(renderMetrics()).toContain([
+      '# HELP poster_source_failures_total Number of times a source could not be read, by chain',
+      '# TYPE poster_source_failures_total counter',
+      'poster_source_failures_total{chain="mainnet",source="url:http://localhost:3000/\\"prices\\""} 1'
+    ].join('\n'));
+  });
+
+  test('labels metrics recorded within a run by its chain', () => {
+    setRunChain('zksync');
+    metrics.retries.inc(runLabels());
+    setRunChain('default');
+    metrics.retries.inc(runLabels());
+
+    expect(metrics.retries.get({chain: 'zksync'})).toEqual(1);
+    expect(metrics.retries.get({chain: 'default'})).toEqual(1);
+  });
+
+  test('serves metrics on /metrics', async () => {
+    metrics.retries.inc(runLabels());
+    const server = await startMetricsServer(0);
+    const port = (<any>server.address()).port;
+
+    const get = (path: string) => new Promise<[number, string]>((resolve, reject) => {
+      http.get(`http://127.0.0.1:${port}${path}`, res => {
+        let body = '';
+        res.on('data', chunk => body += chunk);
+        res.on('end', () => resolve([Number(res.statusCode), body]));
+      }).on('error', reject);
+    });
+
+    try {
+      const [status, body] = await get('/metrics');
+      expect(status).toEqual(200);
+      expect(body).toContain('poster_retries_total{chain="default"} 1');
+      expect((await get('/'))[0]).toEqual(404);
+    } finally {
+      server.close();
+    }
+  });
+
+  test('fails to start on a port in use', async () => {
+    const server = await startMetricsServer(0);
+    const port = (<any>server.address()).port;
+
+    try {
+      await expect(startMetricsServer(port)).rejects.toThrow(`Could not serve metrics on port ${port}: listen EADDRINUSE`);
+    } finally {
+      server.close();
+    }
+  });
+});
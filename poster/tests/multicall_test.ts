@@ -0,0 +1,91 @@
+import Web3 from 'web3';
+import { prepareCall } from '../src/contracts';
+import { MULTICALL3_ADDRESS, readAll } from '../src/multicall';
+
+const web3 = new Web3();
+const dataAddress = '0x4fe3dd76d873CAF6Cbf56E442B2C808D3984df1D';
+const source = '0xfCEAdAFab14d46e20144F48824d0C09B1a03F2BC';
+const prices = {ETH: 250e6, BTC: 9000e6, DAI: 1e6};
+const calls = Object.keys(prices).map(symbol => prepareCall('OpenOraclePriceData', dataAddress, 'getPrice', [source, symbol]));
+const symbolOf = (data: string) => <string><unknown>web3.eth.abi.decodeParameters(['address', 'string'], '0x' + data.slice(10))[1];
+const revertData = '0x08c379a0' + web3.eth.abi.encodeParameter('string', 'Unknown symbol').slice(2);
+
+// Answers `getPrice` calls made on their own, in JSON-RPC batches or through
+// Multicall3, counting the requests that reach the node
+function mockNode(options: {multicall?: boolean, rpcBatch?: boolean} = {}) {
+  const requests: string[] = [];
+  const price = (data: string) => web3.eth.abi.encodeParameter('uint64', prices[symbolOf(data)]);
+
+  const node = <Web3><unknown>{
+    currentProvider: {
+      send: (payload, callback) => {
+        requests.push('batch');
+        if (!options.rpcBatch) {
+          return callback(new Error('Batch requests are not supported'));
+        }
+
+        callback(null, payload.map(({id, params: [{data}]}) => {
+          return prices[symbolOf(data)] ? {id, result: price(data)} : {id, error: {message: 'execution reverted', data: revertData}};
+        }));
+      }
+    },
+    eth: {
+      abi: web3.eth.abi,
+      call: async ({to, data}) => {
+        requests.push(to);
+        if (to !== MULTICALL3_ADDRESS) {
+          return price(data);
+        }
+        if (!options.multicall) {
+          return '0x';
+        }
+
+        const { '0': batch } = web3.eth.abi.decodeParameters(['(address,bool,bytes)[]'], '0x' + data.slice(10));
+        const results = batch.map(([_target, _allowFailure, callData]) => {
+          return prices[symbolOf(callData)] ? [true, price(callData)] : [false, revertData];
+        });
+
+        return web3.eth.abi.encodeParameters(['(bool,bytes)[]'], [results]);
+      }
+    }
+  };
+
+  return { node, requests };
+}
+
+const decoded = (results: any[]) => results.map(result => result[0]);
+
+describe('batching reads', () => {
+  test('sends every call in one JSON-RPC batch request', async () => {
+    const { node, requests } = mockNode({rpcBatch: true});
+
+    expect(decoded(await readAll(calls, node, {mode: 'rpc'}))).toEqual(['250000000', '9000000000', '1000000']);
+    expect(requests).toEqual(['batch']);
+  });
+
+  test('sends every call in one call to Multicall3', async () => {
+    const { node, requests } = mockNode({multicall: true});
+
+    expect(decoded(await readAll(calls, node, {mode: 'multicall'}))).toEqual(['250000000', '9000000000', '1000000']);
+    expect(requests).toEqual([MULTICALL3_ADDRESS]);
+  });
+
+  test('falls back to individual calls when a batch can not be sent', async () => {
+    const withoutMulticall = mockNode();
+    expect(decoded(await readAll(calls, withoutMulticall.node, {mode: 'multicall'}))).toEqual(['250000000', '9000000000', '1000000']);
+    expect(withoutMulticall.requests).toEqual([MULTICALL3_ADDRESS, dataAddress, dataAddress, dataAddress]);
+
+    const withoutRpcBatch = mockNode();
+    expect(decoded(await readAll(calls, withoutRpcBatch.node, {mode: 'rpc'}))).toEqual(['250000000', '9000000000', '1000000']);
+    expect(withoutRpcBatch.requests).toEqual(['batch', dataAddress, dataAddress, dataAddress]);
+  });
+
+  test('fails with the revert reason of a call that fails within a batch', async () => {
+    const failing = [...calls, prepareCall('OpenOraclePriceData', dataAddress, 'getPrice', [source, 'XYZ'])];
+
+    await expect(readAll(failing, mockNode({multicall: true}).node, {mode: 'multicall'}))
+      .rejects.toThrow(`Call to ${dataAddress} failed: Unknown symbol`);
+    await expect(readAll(failing, mockNode({rpcBatch: true}).node, {mode: 'rpc'}))
+      .rejects.toThrow(`Call to ${dataAddress} failed: Unknown symbol`);
+  });
+});
@@ -0,0 +1,25 @@
+import Ganache from 'ganache-core';
+import Web3 from 'web3';
+import { checkChainId, getNetwork } from '../src/networks';
+
+describe('network profiles', () => {
+  test('looks up named networks', () => {
+    expect(getNetwork('mainnet')).toEqual({chainId: 1, confirmations: 10, timeout: 180, feeModel: 'eip1559'});
+    expect(getNetwork('development').confirmations).toEqual(1);
+    expect(() => getNetwork('kovan')).toThrow(/Unknown network `kovan`, expected one of: development, mainnet/);
+  });
+
+  test('keeps confirming local nodes after a block without a network', () => {
+    expect(getNetwork(undefined, 'http://127.0.0.1:8545')).toEqual({confirmations: 1, timeout: 180, feeModel: 'eip1559'});
+    expect(getNetwork(undefined, 'https://mainnet-eth.compound.finance')).toEqual({confirmations: 10, timeout: 180, feeModel: 'eip1559'});
+  });
+
+  test('refuses to run against a provider on another chain', async () => {
+    const web3 = new Web3(<any>Ganache.provider());
+    const chainId = await web3.eth.getChainId();
+
+    expect(await checkChainId(chainId, web3)).toEqual(chainId);
+    expect(await checkChainId(undefined, web3)).toEqual(chainId);
+    await expect(checkChainId(1, web3)).rejects.toThrow(`Provider is connected to chain ${chainId}, expected chain 1`);
+  });
+});
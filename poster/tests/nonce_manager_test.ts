@@ -0,0 +1,61 @@
+import Ganache from 'ganache-core';
+import Web3 from 'web3';
+import { NonceManager } from '../src/nonce_manager';
+import { postWithRetries } from '../src/post_with_retries';
+
+describe('nonce manager', () => {
+  test('next replaces the oldest pending transaction', async () => {
+    const web3 = <Web3><unknown>{
+      eth: {
+        getTransactionCount: async (_address, block) => block === 'latest' ? 3 : 5
+      }
+    };
+
+    const nonceManager = new NonceManager('0x864f667F63B8650e10A0E52910f01198dAb19d69', web3);
+    expect(await nonceManager.next()).toEqual(3);
+  });
+
+  test('findMined returns the receipt of whichever attempt was mined', async () => {
+    const web3 = <Web3><unknown>{
+      eth: {
+        getTransactionReceipt: async (hash) => hash === '0x2' ? {transactionHash: '0x2', status: true} : null
+      }
+    };
+
+    const nonceManager = new NonceManager('0x864f667F63B8650e10A0E52910f01198dAb19d69', web3);
+    nonceManager.track(7, '0x1');
+    nonceManager.track(7, '0x2');
+
+    expect(nonceManager.sentWith(7)).toEqual(['0x1', '0x2']);
+    expect(await nonceManager.findMined(7)).toEqual({transactionHash: '0x2', status: true});
+    expect(await nonceManager.findMined(8)).toEqual(undefined);
+  });
+
+  test('postWithRetries keeps the nonce when retrying a timed out transaction', async () => {
+    const web3 = new Web3(<any>Ganache.provider());
+    const senderKey = "0x620622d7fbe43a4dccd3aef6ef90d20728508c563719380f289cf3f9460d0510";
+    const sent: string[] = [];
+
+    (<any>web3.eth).sendSignedTransaction = async (signedTransactionData: string) => {
+      sent.push(signedTransactionData);
+      if (sent.length === 1) {
+        throw new Error('Transaction was not mined within 750 seconds, please make sure your transaction was properly sent. Be aware that it might still be mined!');
+      }
+
+      return {status: true, transactionHash: '0x1'};
+    };
+
+    const nonceManager = new NonceManager(web3.eth.accounts.privateKeyToAccount(senderKey).address, web3);
+    const receipt = await postWithRetries({
+      to: "0x4fe3dd76d873CAF6Cbf56E442B2C808D3984df1D",
+      gasPrice: 10_000_000,
+      gas: 100_000
+    }, senderKey, web3, 1, 0, nonceManager);
+
+    expect(receipt).toEqual({status: true, transactionHash: '0x1'});
+    // Both attempts were sent with the first nonce, the retry with a higher gas price
+    expect(sent.length).toEqual(2);
+    expect(sent[0]).not.toEqual(sent[1]);
+    expect(nonceManager.sentWith(0).length).toEqual(2);
+  }, 10000);
+});
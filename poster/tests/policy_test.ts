@@ -0,0 +1,60 @@
+import { inPolicyRange, parsePriceDeltas, parsePricePolicy, pricePolicy, relativeDelta, validatePricePolicy } from '../src/policy';
+
+describe('price policies', () => {
+  test('reads bare deltas and snake_case policies', () => {
+    expect(pricePolicy(1)).toEqual({delta: 1});
+    expect(pricePolicy({up: 1, down: 2})).toEqual({up: 1, down: 2});
+    expect(parsePricePolicy('ETH', 0.5)).toEqual({delta: 0.5});
+    expect(parsePricePolicy('ETH', {delta: 1, min_interval: 60})).toEqual({delta: 1, minInterval: 60});
+  });
+
+  test('rejects policies that are not objects or have unknown keys', () => {
+    expect(() => parsePricePolicy('ETH', {delta: 1, minInterval: 60}))
+      .toThrow('Price delta of ETH has unknown keys minInterval, expected any of: delta, up, down, absolute, min_interval, disabled');
+    expect(() => parsePriceDeltas(<any>{ETH: null})).toThrow('Price delta of ETH should be a percent or a policy object, got null');
+    expect(() => parsePriceDeltas(<any>{ETH: '1'})).toThrow('Price delta of ETH should be a percent or a policy object, got "1"');
+    expect(() => parsePriceDeltas(<any>[1])).toThrow('Price deltas should be an object keyed by asset, got [1]');
+  });
+
+  test('picks the relative delta for the direction of the move', () => {
+    const policy = {delta: 5, up: 1};
+
+    expect(relativeDelta(policy, 101, 100)).toEqual(1);
+    expect(relativeDelta(policy, 99, 100)).toEqual(5);
+    expect(relativeDelta({absolute: 1}, 99, 100)).toBeUndefined();
+  });
+
+  test('inPolicyRange', () => {
+    // same as inDeltaRange for a bare delta
+    expect(inPolicyRange({delta: 1}, 100.5, 100)).toEqual(true);
+    expect(inPolicyRange({delta: 1}, 98, 100)).toEqual(false);
+    expect(inPolicyRange({delta: 0}, 100, 100)).toEqual(false);
+
+    const asymmetric = {up: 1, down: 0.5};
+    expect(inPolicyRange(asymmetric, 100.8, 100)).toEqual(true);
+    expect(inPolicyRange(asymmetric, 99.2, 100)).toEqual(false);
+
+    const absolute = {absolute: 0.01};
+    expect(inPolicyRange(absolute, 1.005, 1)).toEqual(true);
+    expect(inPolicyRange(absolute, 0.98, 1)).toEqual(false);
+    expect(inPolicyRange({absolute: 0}, 1, 1)).toEqual(false);
+
+    // an absolute delta posts moves within the relative delta
+    expect(inPolicyRange({delta: 1, absolute: 10}, 2015, 2000)).toEqual(false);
+    expect(inPolicyRange({delta: 1, absolute: 10}, 2005, 2000)).toEqual(true);
+  });
+
+  test('validatePricePolicy', () => {
+    expect(() => validatePricePolicy('ETH', {delta: 1})).not.toThrow();
+    expect(() => validatePricePolicy('ETH', {up: 1, down: 0.5, minInterval: 60})).not.toThrow();
+    expect(() => validatePricePolicy('REP', {disabled: true})).not.toThrow();
+
+    expect(() => validatePricePolicy('ETH', undefined)).toThrow('Missing price delta for ETH, every asset needs one in --price-deltas');
+    expect(() => validatePricePolicy('ETH', {})).toThrow('Price delta of ETH needs a `delta`, `up` and `down`, or an `absolute` delta');
+    expect(() => validatePricePolicy('ETH', {down: 1})).toThrow('Price delta of ETH sets only one of `up` and `down`');
+    expect(() => validatePricePolicy('ETH', {delta: -1})).toThrow('Price delta `delta` of ETH should be a percent between 0 and 100, got -1');
+    expect(() => validatePricePolicy('USDC', {absolute: -0.01})).toThrow('Price delta `absolute` of USDC should be a non-negative number of USD, got -0.01');
+    expect(() => validatePricePolicy('ETH', {delta: 1, minInterval: 1.5})).toThrow('Price delta `min_interval` of ETH should be a positive whole number of seconds, got 1.5');
+    expect(() => validatePricePolicy('REP', <any>{disabled: 'yes'})).toThrow('Price delta `disabled` of REP should be true or false, got yes');
+  });
+});
@@ -3,7 +3,12 @@ import {
   buildTrxData,
   fetchGasPrice,
   fetchPayloads,
+  fetchSources,
   inDeltaRange,
+  heartbeatExpired,
+  checkMessageTimestamp,
+  countSkipped,
+  deltaMultiple,
   filterPayloads
 } from '../src/poster';
 import * as prevPrice from '../src/prev_price';
@@ -89,6 +94,26 @@ describe('loading poster arguments from environment and https', () => {
   });
 });
 
+describe('tolerating source failures', () => {
+  const sources = ["http://localhost:3000", "http://localhost:3000/down", "http://localhost:3000/prices.json"];
+
+  test('fetchPayloads fails when any source fails by default', async () => {
+    await expect(fetchPayloads(sources, mockFetch(endpointResponses))).rejects.toThrow(
+      'Only 2 of 3 source(s) could be read, need 3: failed_sources=url:http://localhost:3000/down'
+    );
+  });
+
+  test('fetchSources posts whatever succeeded once enough sources are healthy', async () => {
+    const { payloads, failedSources } = await fetchSources(sources, mockFetch(endpointResponses), 2);
+
+    expect(payloads).toEqual([
+      endpointResponses["http://localhost:3000"],
+      endpointResponses["http://localhost:3000/prices.json"]
+    ]);
+    expect(failedSources).toEqual(["url:http://localhost:3000/down"]);
+  });
+});
+
 describe('building a function call', () => {
   test('findTypes', () => {
     let typeString = "writePrices(bytes[],bytes[],string[])";
@@ -152,6 +177,32 @@ describe('checking that numbers are within the specified delta range', () => {
     expect(inDeltaRange(5, 1, 1)).toEqual(true);
     expect(inDeltaRange(100, 1, 1)).toEqual(true);
   })
+
+  test('deltaMultiple', () => {
+    const decisions = [
+      {symbol: 'ETH', price: 1030, prev: 1000, post: true, reason: <'delta'>'delta'},
+      {symbol: 'BTC', price: 100, prev: 90, post: false, reason: <'in_delta'>'in_delta'},
+      {symbol: 'DAI', price: 2, prev: 1, post: true, reason: <'delta'>'delta'}
+    ];
+
+    expect(deltaMultiple(decisions, {ETH: 1, BTC: 1, DAI: 0})).toEqual(3);
+    expect(deltaMultiple(decisions, {ETH: 2, BTC: 1, DAI: 50})).toEqual(2);
+    expect(deltaMultiple([], {})).toEqual(0);
+  })
+
+  test('heartbeatExpired', () => {
+    expect(heartbeatExpired(3600, 1000, 4599)).toEqual(false);
+    expect(heartbeatExpired(3600, 1000, 4600)).toEqual(true);
+    expect(heartbeatExpired(3600, 1000, 10000)).toEqual(true);
+  })
+
+  test('checkMessageTimestamp', () => {
+    expect(checkMessageTimestamp(1000, 600, 30, 1600)).toEqual(undefined);
+    expect(checkMessageTimestamp(1000, 600, 30, 1601)).toEqual('stale');
+    expect(checkMessageTimestamp(1030, 600, 30, 1000)).toEqual(undefined);
+    expect(checkMessageTimestamp(1031, 600, 30, 1000)).toEqual('future');
+    expect(checkMessageTimestamp(0, undefined, undefined, 1000000)).toEqual(undefined);
+  })
 })
 
 describe('filtering payloads', () => {
@@ -226,6 +277,32 @@ describe('filtering payloads', () => {
     ]);
   })
 
+  test('Filtering payloads reads sources and previous prices in batches', async () => {
+    const payloads = [
+      {
+        timestamp: '1593209100',
+        messages: ['0x1', '0x2', '0x3'],
+        signatures: ['0x1', '0x2', '0x3'],
+        prices: {BTC: '10101', ETH: '1000', DAI: '1.5'}
+      }
+    ];
+    mockMessages(transformPayloads(payloads));
+    jest.spyOn(prevPrice, 'getDataAddress').mockImplementation(() => Promise.resolve(""));
+    const getSourceAddressesSpy = jest.spyOn(prevPrice, 'getSourceAddresses').mockImplementation(async (_dataAddress, signed) => signed.map(() => '0xsource'));
+    const getPreviousPricesSpy = jest.spyOn(prevPrice, 'getPreviousPrices').mockImplementation(async () => ['10000000000', '1000000000', '1000000']);
+
+    const feedItems = await filterPayloads(payloads, '0x0', ['BTC', 'ETH', 'DAI'], {BTC: 1, ETH: 1, DAI: 1}, new Web3(), {reads: {mode: 'multicall'}});
+
+    expect(feedItems.map(({symbol, source, prev}) => [symbol, source, prev])).toEqual([['BTC', '0xsource', 10000], ['DAI', '0xsource', 1]]);
+    expect(getSourceAddressesSpy).toHaveBeenCalledTimes(1);
+    expect(getPreviousPricesSpy).toHaveBeenCalledTimes(1);
+    expect(getPreviousPricesSpy.mock.calls[0][1]).toEqual([
+      {source: '0xsource', symbol: 'BTC'},
+      {source: '0xsource', symbol: 'ETH'},
+      {source: '0xsource', symbol: 'DAI'}
+    ]);
+  })
+
   test('Filtering payloads, ETH, BTC and ZRX prices are more than delta % different, ZRX, XTZ are not supported', async () => {
     mockPrevPrices({ 'BTC': 10000000000, 'ETH': 1000000000, 'ZRX': 1011000, 'REP': 16000000, 'DAI': 1000000, 'BAT': 1000000, 'KNC': 2000000, 'LINK': 5000000 });
 
@@ -408,4 +485,135 @@ describe('filtering payloads', () => {
       }
     ]);
   })
+
+  test('Filtering payloads reads previous timestamps in a batch', async () => {
+    const payloads = [
+      {
+        timestamp: '1593209100',
+        messages: ['0x1', '0x2', '0x3'],
+        signatures: ['0x1', '0x2', '0x3'],
+        prices: {BTC: '10000', ETH: '1100', DAI: '1'}
+      }
+    ];
+    mockMessages(transformPayloads(payloads));
+    jest.spyOn(prevPrice, 'getDataAddress').mockImplementation(() => Promise.resolve(""));
+    jest.spyOn(prevPrice, 'getSourceAddresses').mockImplementation(async (_dataAddress, signed) => signed.map(() => '0xsource'));
+    jest.spyOn(prevPrice, 'getPreviousPrices').mockImplementation(async () => ['10000000000', '1000000000', '1000000']);
+    const now = Math.floor(Date.now() / 1000);
+    const getPreviousTimestampSpy = jest.spyOn(prevPrice, 'getPreviousTimestamp');
+    const getPreviousTimestampsSpy = jest.spyOn(prevPrice, 'getPreviousTimestamps').mockImplementation(async () => [String(now - 7200), String(now - 60)]);
+
+    const deltas = {BTC: 1, ETH: {delta: 1, minInterval: 3600}, DAI: 1};
+    const feedItems = await filterPayloads(payloads, '0x0', ['BTC', 'ETH', 'DAI'], deltas, new Web3(), {heartbeats: {BTC: 3600}, reads: {mode: 'multicall'}});
+
+    // ETH moved past its delta, but was posted within its min interval
+    expect(feedItems.map(({symbol}) => symbol)).toEqual(['BTC']);
+    expect(getPreviousTimestampsSpy).toHaveBeenCalledTimes(1);
+    expect(getPreviousTimestampsSpy.mock.calls[0][1].map(({symbol}) => symbol)).toEqual(['BTC', 'ETH']);
+    expect(getPreviousTimestampSpy).not.toHaveBeenCalled();
+  })
+
+  test('Filtering payloads, prices within delta are posted once their heartbeat has expired', async () => {
+    mockPrevPrices({ 'BTC': 10000000000, 'ETH': 1000000000, 'DAI': 1000000 });
+    const now = Date.now() / 1000;
+    const prevTimestamps = { 'BTC': now - 7200, 'ETH': now - 60, 'DAI': now - 60 };
+    const getPreviousTimestampSpy = jest.spyOn(prevPrice, 'getPreviousTimestamp');
+    getPreviousTimestampSpy.mockImplementation(async (_sourceAddress, asset, _dataAddress, _web3) => prevTimestamps[asset]);
+
+    const payloads = [
+      {
+        timestamp: '1593209100',
+        messages: ['0x1', '0x2', '0x3'],
+        signatures: ['0x1', '0x2', '0x3'],
+        prices: {
+          BTC: '10000',
+          ETH: '1000',
+          DAI: '1'
+        }
+      }
+    ];
+    mockMessages(transformPayloads(payloads));
+
+    const feedItems = await filterPayloads(payloads, '0x0', ['BTC', 'ETH', 'DAI'], {BTC: 1, ETH: 1, DAI: 1}, new Web3(), {heartbeats: {BTC: 3600, ETH: 3600}});
+    expect(feedItems).toEqual([
+      {
+        message: '0x1',
+        signature: '0x1',
+        dataType: 'type',
+        timestamp: 0,
+        symbol: 'BTC',
+        price: 10000,
+        source: '',
+        prev: 10000
+      }
+    ]);
+    // DAI has no heartbeat, so its on-chain timestamp is never read
+    expect(getPreviousTimestampSpy.mock.calls.map(([_source, asset]) => asset)).toEqual(['BTC', 'ETH']);
+  })
+
+  test('Filtering payloads, prices follow their policies', async () => {
+    mockPrevPrices({ 'BTC': 10000000000, 'ETH': 1000000000, 'DAI': 1000000, 'REP': 10000000 });
+    const now = Date.now() / 1000;
+    const prevTimestamps = { 'BTC': now - 60, 'ETH': now - 7200 };
+    const getPreviousTimestampSpy = jest.spyOn(prevPrice, 'getPreviousTimestamp');
+    getPreviousTimestampSpy.mockImplementation(async (_sourceAddress, asset, _dataAddress, _web3) => prevTimestamps[asset]);
+
+    const payloads = [
+      {
+        timestamp: '1593209100',
+        messages: ['0x1', '0x2', '0x3', '0x4'],
+        signatures: ['0x1', '0x2', '0x3', '0x4'],
+        prices: {
+          BTC: '11000',
+          ETH: '1100',
+          DAI: '1.02',
+          REP: '20'
+        }
+      }
+    ];
+    mockMessages(transformPayloads(payloads));
+
+    const deltas = {
+      BTC: {delta: 1, minInterval: 3600},
+      ETH: {delta: 1, minInterval: 3600},
+      DAI: {up: 5, down: 1, absolute: 0.01},
+      REP: {delta: 1, disabled: true}
+    };
+    const decisions = [];
+    const feedItems = await filterPayloads(payloads, '0x0', ['BTC', 'ETH', 'DAI', 'REP'], deltas, new Web3(), {}, decisions);
+    expect(feedItems.map(({symbol}) => symbol)).toEqual(['ETH', 'DAI']);
+    // BTC moved past its delta, but was posted less than its min interval ago
+    expect(Object.fromEntries(decisions.map(({symbol, reason}) => [symbol, reason]))).toEqual({
+      REP: 'disabled',
+      BTC: 'min_interval',
+      ETH: 'delta',
+      DAI: 'delta'
+    });
+  })
+
+  test('Filtering payloads, stale and future messages are dropped and counted', async () => {
+    mockPrevPrices({ 'BTC': 9000000000, 'ETH': 900000000, 'DAI': 900000 });
+    const now = Math.floor(Date.now() / 1000);
+
+    mockMessages({
+      '0x1': { dataType: 'type', timestamp: now - 3600, symbol: 'BTC', price: 10000 },
+      '0x2': { dataType: 'type', timestamp: now + 3600, symbol: 'ETH', price: 1000 },
+      '0x3': { dataType: 'type', timestamp: now, symbol: 'DAI', price: 1 }
+    });
+    const payloads = [
+      {
+        messages: ['0x1', '0x2', '0x3'],
+        signatures: ['0x1', '0x2', '0x3'],
+        prices: {}
+      }
+    ];
+
+    const decisions = [];
+    const feedItems = await filterPayloads(payloads, '0x0', ['BTC', 'ETH', 'DAI'], {BTC: 1, ETH: 1, DAI: 1}, new Web3(), {
+      maxMessageAges: {BTC: 600, ETH: 600, DAI: 600},
+      maxClockSkews: {BTC: 30, ETH: 30, DAI: 30}
+    }, decisions);
+    expect(feedItems.map(({symbol}) => symbol)).toEqual(['DAI']);
+    expect(countSkipped(decisions)).toEqual({stale: 1, future: 1});
+  })
 });
@@ -0,0 +1,57 @@
+import Web3 from 'web3';
+import { filterPayloads } from '../src/poster';
+import * as prevPrice from '../src/prev_price';
+import { isSignedByReporter, recoverSigner } from '../src/signatures';
+
+const web3 = new Web3();
+const reporterKey = '0x177ee777e72b8c042e05ef41d1db0f17f1fcb0e8150b37cfad6993e4373bdf10';
+const reporter = web3.eth.accounts.privateKeyToAccount(reporterKey).address;
+const otherKey = '0x620622d7fbe43a4dccd3aef6ef90d20728508c563719380f289cf3f9460d0510';
+
+// Signs the same way as `sign` in the reporter SDK
+function sign(message: string, privateKey: string): string {
+  const hash = web3.utils.keccak256(message);
+  const {r, s, v} = web3.eth.accounts.sign(hash, privateKey);
+
+  return web3.eth.abi.encodeParameters(['bytes32', 'bytes32', 'uint8'], [r, s, v]);
+}
+
+function encodePrice(symbol: string, price: number): string {
+  return web3.eth.abi.encodeParameters(['string', 'uint64', 'string', 'uint64'], ['prices', 1593209100, symbol, price * 1e6]);
+}
+
+describe('verifying reporter signatures', () => {
+  test('recoverSigner', () => {
+    const message = encodePrice('ETH', 250);
+
+    expect(recoverSigner(message, sign(message, reporterKey), web3)).toEqual(reporter);
+  });
+
+  test('isSignedByReporter', () => {
+    const message = encodePrice('ETH', 250);
+
+    expect(isSignedByReporter(message, sign(message, reporterKey), [reporter.toLowerCase()], web3)).toEqual([true, reporter]);
+    expect(isSignedByReporter(message, sign(message, otherKey), [reporter], web3)[0]).toEqual(false);
+    expect(isSignedByReporter(message, '0x1234', [reporter], web3)).toEqual([false, undefined]);
+  });
+
+  test('filterPayloads drops messages from unknown signers before any RPC call', async () => {
+    jest.spyOn(prevPrice, 'getDataAddress').mockImplementation(() => Promise.resolve(""));
+    const getSourceAddressSpy = jest.spyOn(prevPrice, 'getSourceAddress').mockImplementation(() => Promise.resolve(reporter));
+    jest.spyOn(prevPrice, 'getPreviousPrice').mockImplementation(() => Promise.resolve('1000000'));
+
+    const eth = encodePrice('ETH', 250);
+    const btc = encodePrice('BTC', 10000);
+    const payloads = [
+      {
+        messages: [eth, btc],
+        signatures: [sign(eth, reporterKey), sign(btc, otherKey)],
+        prices: {ETH: '250', BTC: '10000'}
+      }
+    ];
+
+    const feedItems = await filterPayloads(payloads, '0x0', ['ETH', 'BTC'], {ETH: 1, BTC: 1}, web3, {reporters: [reporter]});
+    expect(feedItems.map(({symbol}) => symbol)).toEqual(['ETH']);
+    expect(getSourceAddressSpy).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Web3 from 'web3';
+import { LocalSigner, loadSigner, RemoteSigner } from '../src/signer';
+
+const web3 = new Web3();
+const privateKey = '0x620622d7fbe43a4dccd3aef6ef90d20728508c563719380f289cf3f9460d0510';
+const address = '0x8121bF07C873586DFe9B23F1687B73108797dac0';
+const transaction = {
+  to: '0x4fe3dd76d873CAF6Cbf56E442B2C808D3984df1D',
+  data: '0x01',
+  gasPrice: 10_000_000,
+  gas: 100_000,
+  nonce: 3,
+  chainId: 1
+};
+
+function tempFile(contents: string): string {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'poster-')), 'key');
+  fs.writeFileSync(file, contents);
+
+  return file;
+}
+
+// Stands in for a remote signer such as Clef, signing with a local key
+function remoteSignerFetch(requests: any[]) {
+  return async (_url, {body}) => {
+    const request = JSON.parse(body);
+    requests.push(request);
+
+    let result;
+    if (request.method === 'eth_accounts') {
+      result = [address];
+    } else {
+      const { rawTransaction } = await web3.eth.accounts.signTransaction({...request.params[0], chainId: Number(request.params[0].chainId)}, privateKey);
+      result = {raw: rawTransaction, tx: {}};
+    }
+
+    return {json: async () => ({jsonrpc: '2.0', id: request.id, result})};
+  };
+}
+
+describe('signers', () => {
+  test('loads raw keys, and keys from files and env vars', async () => {
+    process.env.POSTER_TEST_KEY = privateKey.slice(2);
+
+    expect((await loadSigner(privateKey)).address).toEqual(address);
+    expect((await loadSigner(`file:${tempFile(privateKey + '\n')}`)).address).toEqual(address);
+    expect((await loadSigner('env:POSTER_TEST_KEY')).address).toEqual(address);
+    await expect(loadSigner('env:POSTER_MISSING_KEY')).rejects.toThrow('Environment variable POSTER_MISSING_KEY is not set');
+    await expect(loadSigner('not a key')).rejects.toThrow('Invalid hex for private key');
+  });
+
+  test('decrypts encrypted keystores with a passphrase', async () => {
+    const keystore = tempFile(JSON.stringify(web3.eth.accounts.encrypt(privateKey, 'correct horse')));
+    process.env.POSTER_TEST_PASSPHRASE = 'correct horse';
+
+    expect((await loadSigner(`keystore:${keystore}`, {passphrase: 'env:POSTER_TEST_PASSPHRASE'})).address).toEqual(address);
+    expect((await loadSigner(`file:${keystore}`, {passphrase: 'correct horse'})).address).toEqual(address);
+    await expect(loadSigner(`keystore:${keystore}`)).rejects.toThrow('An encrypted keystore needs a passphrase');
+    await expect(loadSigner(`keystore:${keystore}`, {passphrase: 'wrong'})).rejects.toThrow();
+  }, 20000);
+
+  test('remote signers sign with eth_signTransaction', async () => {
+    const requests: any[] = [];
+    const signer = await loadSigner('remote:http://localhost:8550', {}, web3, remoteSignerFetch(requests));
+    expect(signer).toBeInstanceOf(RemoteSigner);
+    expect(signer.address).toEqual(address);
+
+    const signed = await signer.signTransaction(transaction, web3);
+    const expected = await new LocalSigner(privateKey).signTransaction(transaction, web3);
+
+    expect(signed).toEqual(expected);
+    expect(requests.map(({method}) => method)).toEqual(['eth_accounts', 'eth_signTransaction']);
+    expect(requests[1].params[0]).toEqual({
+      from: address,
+      to: transaction.to,
+      data: '0x01',
+      value: '0x0',
+      gas: '0x186a0',
+      gasPrice: '0x989680',
+      nonce: '0x3',
+      chainId: '0x1'
+    });
+  });
+
+  test('remote signers need an account to sign with', async () => {
+    const fetchFn = async () => ({json: async () => ({jsonrpc: '2.0', id: 1, result: []})});
+
+    await expect(loadSigner('remote:http://localhost:8550', {}, web3, fetchFn))
+      .rejects.toThrow('Remote signer at http://localhost:8550 has 0 accounts, pick one with --signer-address');
+    expect((await loadSigner('remote:http://localhost:8550', {address}, web3, fetchFn)).address).toEqual(address);
+  });
+});
@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fetchPayloads } from '../src/poster';
+import { getSource, parseSource, registerSource } from '../src/sources';
+import { HmacConfig, hmacHeaders } from '../src/sources/hmac';
+
+const payload = {
+  messages: ['0xmessage'],
+  prices: {
+    eth: '260'
+  },
+  signatures: ['0xsignature']
+};
+
+describe('source registry', () => {
+  test('plain urls are read with the url adapter', () => {
+    expect(parseSource('http://localhost:3000/prices.json')).toEqual({
+      source: 'url',
+      url: 'http://localhost:3000/prices.json'
+    });
+  });
+
+  test('unknown sources are rejected', () => {
+    expect(() => parseSource('{"source": "nope"}')).toThrow(/Unknown source `nope`, expected one of: url, coinbase, hmac, file/);
+  });
+
+  test('sources are validated when parsed', () => {
+    expect(() => parseSource('{"source": "coinbase", "endpoint": "https://api.pro.coinbase.com/oracle"}'))
+      .toThrow('Source `coinbase` requires a string `api_key_id` field');
+    expect(() => parseSource('{"source": "hmac", "endpoint": "https://example.com/oracle", "api_key": "key", "api_secret": "c2VjcmV0", "timestamp_format": "days"}'))
+      .toThrow('Source `hmac` field `timestamp_format` must be one of: seconds, milliseconds, iso');
+    expect(() => parseSource('{"source": "file"}')).toThrow('Source `file` requires a string `path` field');
+  });
+
+  test('new sources can be registered without changing the poster', async () => {
+    registerSource('fixed', {
+      validate: (config) => config,
+      fetch: async (_config, _fetchFn) => payload
+    });
+
+    expect(getSource('fixed')).toBeDefined();
+    expect(await fetchPayloads(['{"source": "fixed"}'])).toEqual([payload]);
+  });
+
+  test('file sources read a payload from disk', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'poster-')), 'payload.json');
+    fs.writeFileSync(file, JSON.stringify(payload));
+
+    expect(await fetchPayloads([JSON.stringify({source: 'file', path: file})])).toEqual([payload]);
+  });
+
+  test('hmac sources sign the timestamp, method and path', async () => {
+    const config = <HmacConfig>parseSource(JSON.stringify({
+      source: 'hmac',
+      endpoint: 'https://example.com/api/v5/market/open-oracle',
+      api_key: 'key',
+      api_secret: 'secret',
+      api_passphrase: 'passphrase',
+      secret_encoding: 'utf8',
+      timestamp_format: 'iso',
+      key_header: 'OK-ACCESS-KEY',
+      signature_header: 'OK-ACCESS-SIGN',
+      timestamp_header: 'OK-ACCESS-TIMESTAMP',
+      passphrase_header: 'OK-ACCESS-PASSPHRASE'
+    }));
+    const now = new Date('2020-06-26T22:05:00.000Z');
+    const expectedSignature = crypto.createHmac('sha256', 'secret')
+      .update('2020-06-26T22:05:00.000ZGET/api/v5/market/open-oracle')
+      .digest('base64');
+
+    expect(hmacHeaders(config, now)).toEqual({
+      'OK-ACCESS-KEY': 'key',
+      'OK-ACCESS-SIGN': expectedSignature,
+      'OK-ACCESS-TIMESTAMP': '2020-06-26T22:05:00.000Z',
+      'OK-ACCESS-PASSPHRASE': 'passphrase',
+      'Content-Type': 'application/json'
+    });
+  });
+
+  test('hmac sources send whole seconds by default', () => {
+    const config = <HmacConfig>parseSource('{"source": "hmac", "endpoint": "https://example.com/oracle", "api_key": "key", "api_secret": "c2VjcmV0"}');
+
+    expect(hmacHeaders(config, new Date(1593209100123))[config.timestamp_header]).toEqual('1593209100');
+  });
+});
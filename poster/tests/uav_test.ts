@@ -0,0 +1,167 @@
+import BigNumber from 'bignumber.js';
+import Web3 from 'web3';
+import { abiFunction, ContractName, encodeCall } from '../src/contracts';
+import * as fees from '../src/fees';
+import * as mocker from '../src/mainnet_uniswap_mocker';
+import * as postWithRetries from '../src/post_with_retries';
+import { anchorPrice, pokeFailedOverPrices, symbolHash, twap } from '../src/uav';
+
+const web3 = new Web3();
+const viewAddress = '0x4fe3dd76d873CAF6Cbf56E442B2C808D3984df1D';
+const posterKey = '0x620622d7fbe43a4dccd3aef6ef90d20728508c563719380f289cf3f9460d0510';
+const anchorPeriod = 1800;
+
+// ETH anchors at ~2000 USD, BTC at ~15 ETH
+const tokens = {
+  ETH: {baseUnit: '1000000000000000000', market: '0x8ad599c3A0ff1De082011EFDDc58f1908eb6e6D8', tick: -200311, reversed: false},
+  BTC: {baseUnit: '100000000', market: '0xCBCdF9626bC03E24f779434178A73a0B4bad62eD', tick: 257352, reversed: false}
+};
+
+const selector = (contract: ContractName, name: string) => web3.eth.abi.encodeFunctionSignature(<any>abiFunction(contract, name));
+const encodeOutputs = (contract: ContractName, name: string, values: any[]) =>
+  web3.eth.abi.encodeParameters(<any>abiFunction(contract, name).outputs, values);
+
+// Answers the view's and the pools' reads for `prices`, stored with 6 decimals
+function mockChain(prices: {[symbol: string]: {price: number, failoverActive: boolean}}) {
+  const symbolOf = (args: string) => {
+    const hash = <string><unknown>web3.eth.abi.decodeParameter('bytes32', args);
+    return <string>Object.keys(tokens).find(symbol => symbolHash(symbol) === hash);
+  };
+  const estimated: string[] = [];
+
+  const chain = <Web3><unknown>{
+    utils: web3.utils,
+    eth: {
+      abi: web3.eth.abi,
+      estimateGas: async ({data}) => {
+        estimated.push(data);
+        return 80_000;
+      },
+      call: async ({to, data}) => {
+        const args = '0x' + data.slice(10);
+        const market = Object.keys(tokens).find(symbol => tokens[symbol].market === to);
+        if (market) {
+          const { tick } = tokens[market];
+          return encodeOutputs('UniswapV3Pool', 'observe', [[0, tick * anchorPeriod], [0, 0]]);
+        }
+
+        switch (data.slice(0, 10)) {
+          case selector('UniswapAnchoredView', 'prices'): {
+            const { price, failoverActive } = prices[symbolOf(args)];
+            return encodeOutputs('UniswapAnchoredView', 'prices', [price, failoverActive]);
+          }
+          case selector('UniswapAnchoredView', 'anchorPeriod'):
+            return encodeOutputs('UniswapAnchoredView', 'anchorPeriod', [anchorPeriod]);
+          case selector('UniswapAnchoredView', 'getTokenConfigBySymbolHash'): {
+            const symbol = symbolOf(args);
+            const { baseUnit, market, reversed } = tokens[symbol];
+            return encodeOutputs('UniswapAnchoredView', 'getTokenConfigBySymbolHash', [
+              [viewAddress, viewAddress, symbolHash(symbol), baseUnit, 2, 0, market, viewAddress, 1, reversed]
+            ]);
+          }
+        }
+
+        throw new Error(`Unexpected call to ${to}`);
+      }
+    }
+  };
+
+  return { chain, estimated };
+}
+
+describe('UniswapAnchoredView', () => {
+  test('twap', () => {
+    expect(twap(['0', '18000'], 1800, false)).toEqual(new BigNumber(Math.pow(1.0001, 10)).multipliedBy(1e18));
+    expect(twap(['0', '18000'], 1800, true)).toEqual(new BigNumber(Math.pow(1.0001, -10)).multipliedBy(1e18));
+    // rounds towards zero like Solidity, rather than down
+    expect(twap(['0', '-18001'], 1800, false)).toEqual(new BigNumber(Math.pow(1.0001, -10)).multipliedBy(1e18));
+  });
+
+  test('anchorPrice', () => {
+    // ETH, against a conversion factor of 1e18
+    expect(anchorPrice(new BigNumber('2000123456.789'), new BigNumber(1e18), {baseUnit: '1000000000000000000'})).toEqual(new BigNumber('2000123456'));
+    // BTC, at 15 ETH of 2000 USD
+    expect(anchorPrice(new BigNumber(15e10).multipliedBy(1e18), new BigNumber(2000e6), {baseUnit: '100000000'})).toEqual(new BigNumber(30000e6));
+  });
+
+  test('pokes failed over prices whose anchor moved past the delta', async () => {
+    const { chain, estimated } = mockChain({
+      ETH: {price: 1000e6, failoverActive: false},
+      BTC: {price: 20000e6, failoverActive: true}
+    });
+
+    const result = await pokeFailedOverPrices(posterKey, viewAddress, {ETH: 1, BTC: 1}, ['eth', 'btc'], chain, {dryRun: true});
+
+    expect(result.decisions.map(({symbol, post, reason}) => ({symbol, post, reason}))).toEqual([
+      {symbol: 'ETH', post: false, reason: 'no_failover'},
+      {symbol: 'BTC', post: true, reason: 'delta'}
+    ]);
+    expect(result.decisions[1].price).toBeCloseTo(30000, -2);
+    expect(result.skipped).toEqual({no_failover: 1});
+    expect(estimated).toEqual([encodeCall('UniswapAnchoredView', 'pokeFailedOverPrice', [symbolHash('BTC')])]);
+  });
+
+  test('leaves failed over prices that are still close to their anchor', async () => {
+    const { chain, estimated } = mockChain({
+      ETH: {price: 2000e6, failoverActive: true},
+      BTC: {price: 30000e6, failoverActive: true}
+    });
+
+    const result = await pokeFailedOverPrices(posterKey, viewAddress, {ETH: 1, BTC: 1}, ['ETH', 'BTC'], chain, {dryRun: true});
+
+    expect(result.decisions.map(({post, reason}) => ({post, reason}))).toEqual([
+      {post: false, reason: 'in_delta'},
+      {post: false, reason: 'in_delta'}
+    ]);
+    expect(estimated).toEqual([]);
+  });
+
+  test('mirrors the ETH pool in a testnet world, whichever assets are poked', async () => {
+    const { chain } = mockChain({BTC: {price: 20000e6, failoverActive: false}});
+    const mock = jest.spyOn(mocker, 'mockUniswapV3Pools').mockImplementation(async () => undefined);
+
+    await pokeFailedOverPrices(posterKey, viewAddress, {BTC: 1}, ['btc'], chain, {
+      feeModel: 'legacy',
+      gasStrategy: {type: 'fixed', value: 1},
+      testnetWorld: {pairs: {testnet: {}, mainnet: {}}, gas: 100_000}
+    });
+
+    expect(mock.mock.calls[0][0]).toEqual(['ETH', 'BTC']);
+    jest.restoreAllMocks();
+  });
+
+  test('keeps the pokes that were sent when a later one fails', async () => {
+    const { chain } = mockChain({
+      ETH: {price: 1000e6, failoverActive: true},
+      BTC: {price: 20000e6, failoverActive: true}
+    });
+    jest.spyOn(postWithRetries, 'postWithRetries')
+      .mockImplementationOnce(async () => <any>{status: true, transactionHash: '0x1', logs: []})
+      .mockImplementationOnce(async () => { throw new Error('Failed to run Open Price Feed poster after 3 attempt(s)'); });
+
+    const error = await pokeFailedOverPrices(posterKey, viewAddress, {ETH: 1, BTC: 1}, ['ETH', 'BTC'], chain, {
+      feeModel: 'legacy',
+      gasStrategy: {type: 'fixed', value: 1}
+    }).catch(e => e);
+
+    expect(error.message).toEqual('Failed to run Open Price Feed poster after 3 attempt(s)');
+    expect(error.result.transactions.map(({symbols, receipt}) => [symbols, receipt.transactionHash])).toEqual([[['ETH'], '0x1']]);
+    jest.restoreAllMocks();
+  });
+
+  test('sends pokes at the configured gas price', async () => {
+    const { chain } = mockChain({BTC: {price: 20000e6, failoverActive: true}});
+    const post = jest.spyOn(postWithRetries, 'postWithRetries').mockImplementation(async () => <any>{status: true, transactionHash: '0x1', logs: []});
+
+    await pokeFailedOverPrices(posterKey, viewAddress, {BTC: 1}, ['BTC'], chain, {feeModel: 'legacy', gasPrice: 5e9});
+    expect(post.mock.calls[0][0]).toMatchObject({gasPrice: 5e9});
+
+    const fetchFees = jest.spyOn(fees, 'fetchFees').mockImplementation(async () => ({maxFeePerGas: 5e9, maxPriorityFeePerGas: 1e9}));
+    await pokeFailedOverPrices(posterKey, viewAddress, {BTC: 1}, ['BTC'], chain, {feeModel: 'eip1559', gasPrice: 5e9});
+
+    expect(fetchFees.mock.calls[0][2]).toEqual(5e9);
+    // EIP-1559 fees are capped at the gas price, also when raised on retries
+    expect(post.mock.calls[1][6]).toEqual(5e9);
+    jest.restoreAllMocks();
+  });
+});